@@ -18,5 +18,8 @@ export default defineConfig({
     },
   },
 
-  adapter: cloudflare(),
+  adapter: cloudflare({
+    // Also exports the rate limit Durable Object, see src/worker.ts
+    workerEntryPoint: { path: 'src/worker.ts', namedExports: ['RateLimitCounter'] },
+  }),
 });
\ No newline at end of file
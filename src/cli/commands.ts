@@ -0,0 +1,203 @@
+import type { GlossaryEntry, LLMRequestOptions } from '../types/gemini';
+import { toSubtitleInputs } from '../utils/api';
+import type { LineEnding, OutputEncoding } from '../utils/encoding';
+import { getEncodingLabel } from '../utils/encoding';
+import { exportSubtitles } from '../utils/export';
+import type { SupportedFormat } from '../utils/formats';
+import { createProvider, optimizeFile } from '../utils/llm';
+import type { QCConfig, QCIssue } from '../utils/qc';
+import { lintSubtitles } from '../utils/qc';
+import type { SDHElement } from '../utils/sdh';
+import { countSDH } from '../utils/sdh';
+import type { ParsedSubtitleFile, SubtitleCaption } from '../utils/subtitle';
+import { formatTime } from '../utils/timecode';
+import { shiftCues } from '../utils/timing';
+import { formatOfPath, outputPath, readSubtitleFile, writeOutputFile } from './files';
+
+/**
+ * The commands of the command line tool. Each one handles a single file and
+ * returns what it did, printed as text or JSON by the caller; errors are
+ * thrown and reported per file.
+ */
+
+export interface CommandOptions {
+  // Reading
+  from?: SupportedFormat;
+  encoding?: string;
+  fps?: number;
+  // Writing, the format of the input by default
+  to?: SupportedFormat;
+  outputEncoding?: OutputEncoding;
+  lineEnding?: LineEnding;
+  // SDH annotations left out of the output
+  removeSDH?: SDHElement[];
+  outDir?: string;
+  force: boolean;
+  // shift, in milliseconds
+  offset?: number;
+  // lint
+  qc: QCConfig;
+  strict: boolean;
+  // optimize
+  llm: LLMRequestOptions;
+  glossary: GlossaryEntry[];
+}
+
+export interface WriteResult {
+  file: string;
+  output: string;
+  // Characters the output encoding can't represent, written as "?"
+  unmappable: number;
+}
+
+export interface InfoResult {
+  file: string;
+  format?: SupportedFormat;
+  encoding: string;
+  encodingSource: string;
+  cues: number;
+  // First start and last end, in milliseconds
+  start: number;
+  end: number;
+  // Cues with each kind of hearing-impaired annotation
+  sdh: Record<SDHElement, number>;
+}
+
+export interface LintResult {
+  file: string;
+  issues: QCIssue[];
+  errors: number;
+  warnings: number;
+}
+
+export interface OptimizeResult extends WriteResult {
+  // Lines the model got wrong, written unchanged
+  failed: number[];
+}
+
+export interface Command<T> {
+  summary: string;
+  run(file: string, options: CommandOptions): Promise<T>;
+  format(result: T): string;
+  // Whether the result should fail the run, besides errors
+  fails?(result: T, options: CommandOptions): boolean;
+}
+
+const read = (file: string, options: CommandOptions): Promise<ParsedSubtitleFile> =>
+  readSubtitleFile(file, { fps: options.fps, encoding: options.encoding, format: options.from });
+
+// Build the output of a file, with new cue times or texts, and write it
+async function write(
+  file: string,
+  parsed: ParsedSubtitleFile,
+  options: CommandOptions,
+  captions: SubtitleCaption[] = parsed.captions,
+  texts: Record<number, string> = {}
+): Promise<WriteResult> {
+  const format = options.to ?? formatOfPath(file) ?? 'srt';
+  const output = outputPath(file, format, options.outDir);
+  const { bytes, unmappable } = exportSubtitles(toSubtitleInputs(captions, texts), format, {
+    document: parsed.document,
+    fps: options.fps,
+    encoding: options.outputEncoding,
+    lineEnding: options.lineEnding,
+    removeSDH: options.removeSDH,
+  });
+  await writeOutputFile(output, bytes, options.force);
+  return { file, output, unmappable };
+}
+
+const formatWrite = (result: WriteResult): string =>
+  `${result.file} -> ${result.output}${
+    result.unmappable > 0 ? ` (${result.unmappable} characters written as "?")` : ''
+  }`;
+
+const convert: Command<WriteResult> = {
+  summary: 'Convert files to another format or encoding',
+  async run(file, options) {
+    return write(file, await read(file, options), options);
+  },
+  format: formatWrite,
+};
+
+const shift: Command<WriteResult> = {
+  summary: 'Move every cue by an offset (--by)',
+  async run(file, options) {
+    const parsed = await read(file, options);
+    return write(file, parsed, options, shiftCues(parsed.captions, options.offset ?? 0));
+  },
+  format: formatWrite,
+};
+
+const info: Command<InfoResult> = {
+  summary: 'Show the format, encoding, cue count, duration and SDH annotations of files',
+  async run(file, options) {
+    const { captions, encoding } = await read(file, options);
+    return {
+      file,
+      format: options.from ?? formatOfPath(file),
+      encoding: encoding.encoding,
+      encodingSource: encoding.source,
+      cues: captions.length,
+      start: Math.min(...captions.map((caption) => caption.start)),
+      end: Math.max(...captions.map((caption) => caption.end)),
+      sdh: countSDH(captions),
+    };
+  },
+  format: (result) =>
+    [
+      `${result.file}: ${result.format ?? 'unknown format'}`,
+      `${getEncodingLabel(result.encoding)} (${result.encodingSource})`,
+      `${result.cues} cues`,
+      `${formatTime(result.start)} - ${formatTime(result.end)}`,
+      ...Object.entries(result.sdh)
+        .filter(([, count]) => count > 0)
+        .map(([element, count]) => `${count} SDH ${element}`),
+    ].join(', '),
+};
+
+const lint: Command<LintResult> = {
+  summary: 'Check reading speed, layout and timing (exit code 1 on errors)',
+  async run(file, options) {
+    const { captions } = await read(file, options);
+    const issues = lintSubtitles(
+      captions.map(({ index, start, end, content }) => ({ index, start, end, content })),
+      options.qc
+    );
+    const errors = issues.filter((issue) => issue.severity === 'error').length;
+    return { file, issues, errors, warnings: issues.length - errors };
+  },
+  // One line per issue, as compilers print them, then a total
+  format: (result) =>
+    [
+      ...result.issues.map(
+        (issue) => `${result.file}:${issue.index}: ${issue.severity} [${issue.rule}] ${issue.message}`
+      ),
+      `${result.file}: ${result.errors} errors, ${result.warnings} warnings`,
+    ].join('\n'),
+  fails: (result, options) => result.errors > 0 || (options.strict && result.warnings > 0),
+};
+
+const optimize: Command<OptimizeResult> = {
+  summary: 'Improve grammar and flow with a language model, in the same language',
+  async run(file, options) {
+    const parsed = await read(file, options);
+    // The command line calls whichever server its user names
+    const { baseUrl } = options.llm;
+    const { provider, model } = createProvider(options.llm, baseUrl ? [baseUrl] : []);
+    const lines = parsed.captions.map(({ index, content }) => ({ index, content }));
+    const { optimized, failed } = await optimizeFile(provider, model, lines, options.glossary);
+    const texts = Object.fromEntries(optimized.map((item) => [item.index, item.content]));
+    return { ...(await write(file, parsed, options, parsed.captions, texts)), failed };
+  },
+  format: (result) =>
+    formatWrite(result) +
+    (result.failed.length > 0 ? `\n  unchanged lines: ${result.failed.join(', ')}` : ''),
+};
+
+export const COMMANDS = { convert, info, shift, lint, optimize } as const;
+
+export type CommandName = keyof typeof COMMANDS;
+
+export const isCommandName = (value: unknown): value is CommandName =>
+  typeof value === 'string' && value in COMMANDS;
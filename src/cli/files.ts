@@ -0,0 +1,138 @@
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, readdir, stat, writeFile } from 'node:fs/promises';
+import { basename, dirname, extname, join, relative, resolve, sep } from 'node:path';
+import { isSubtitleFilename } from '../utils/batch';
+import { SUPPORTED_FORMATS } from '../utils/formats';
+import type { SupportedFormat } from '../utils/formats';
+import type { ParseOptions, ParsedSubtitleFile } from '../utils/subtitle';
+import { parseSubtitleBytes, validateSubtitleFile } from '../utils/subtitle';
+
+/**
+ * Input and output files of the command line tool. Inputs are files,
+ * directories (every subtitle file below them) or glob patterns, which are
+ * expanded here so they also work when the shell doesn't.
+ */
+
+const GLOB_CHARS = /[*?]/;
+
+// Directories never worth walking into
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git']);
+
+// `**` matches any number of directories, `*` and `?` stay within one
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += pattern[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+async function walk(directory: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await readdir(directory, { withFileTypes: true })) {
+    const path = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      if (!SKIPPED_DIRECTORIES.has(entry.name)) files.push(...(await walk(path)));
+    } else if (entry.isFile()) {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+const toSlashes = (path: string): string => path.split(sep).join('/');
+
+/**
+ * The files named by the inputs, each once and in the order given. Files
+ * found in directories and by patterns are limited to subtitle extensions.
+ * Throws when an input matches nothing.
+ */
+export async function expandInputs(inputs: string[]): Promise<string[]> {
+  const files = new Set<string>();
+
+  for (const input of inputs) {
+    if (GLOB_CHARS.test(input)) {
+      const parts = toSlashes(input).split('/');
+      const literal = parts.findIndex((part) => GLOB_CHARS.test(part));
+      const base = parts.slice(0, literal).join('/') || '.';
+      const pattern = globToRegExp(parts.slice(literal).join('/'));
+      const matches = existsSync(base)
+        ? (await walk(base)).filter(
+            (file) => isSubtitleFilename(file) && pattern.test(toSlashes(relative(base, file)))
+          )
+        : [];
+      if (matches.length === 0) throw new Error(`No files match ${input}`);
+      matches.sort().forEach((file) => files.add(file));
+      continue;
+    }
+
+    const info = await stat(input).catch(() => null);
+    if (!info) throw new Error(`No such file or directory: ${input}`);
+    if (info.isDirectory()) {
+      const matches = (await walk(input)).filter(isSubtitleFilename);
+      if (matches.length === 0) throw new Error(`No subtitle files in ${input}`);
+      matches.sort().forEach((file) => files.add(file));
+    } else {
+      files.add(input);
+    }
+  }
+
+  return [...files];
+}
+
+// Format of a file from its extension, undefined when it has none we know
+export function formatOfPath(path: string): SupportedFormat | undefined {
+  const extension = extname(path).slice(1).toLowerCase();
+  return extension in SUPPORTED_FORMATS ? (extension as SupportedFormat) : undefined;
+}
+
+/**
+ * Read and parse a subtitle file, with the same checks as uploads. Throws
+ * with a message naming the file.
+ */
+export async function readSubtitleFile(
+  path: string,
+  options: ParseOptions = {}
+): Promise<ParsedSubtitleFile> {
+  const bytes = new Uint8Array(await readFile(path));
+  const validation = validateSubtitleFile({ name: basename(path), size: bytes.length });
+  if (!validation.isValid) {
+    throw new Error(validation.error);
+  }
+  return parseSubtitleBytes(bytes, options);
+}
+
+/**
+ * Where the output for an input goes: next to it, or in `outDir`, with
+ * the extension of the output format.
+ */
+export function outputPath(input: string, format: SupportedFormat, outDir?: string): string {
+  const name = `${basename(input, extname(input))}.${SUPPORTED_FORMATS[format]}`;
+  return join(outDir ?? dirname(input), name);
+}
+
+/**
+ * Write an output file, creating its directory. Existing files, the input
+ * included, are only replaced with `force`.
+ */
+export async function writeOutputFile(
+  path: string,
+  bytes: Uint8Array,
+  force = false
+): Promise<void> {
+  if (!force && existsSync(path)) {
+    throw new Error(`${path} already exists, use --force to replace it or --out-dir`);
+  }
+  await mkdir(dirname(resolve(path)), { recursive: true });
+  await writeFile(path, bytes);
+}
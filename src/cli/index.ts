@@ -0,0 +1,216 @@
+#!/usr/bin/env bun
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import type { LLMProviderName } from '../types/gemini';
+import type { LineEnding, OutputEncoding } from '../utils/encoding';
+import { validateExportOptions } from '../utils/export';
+import type { SupportedFormat } from '../utils/formats';
+import { isSupportedFormat } from '../utils/formats';
+import { parseGlossary } from '../utils/glossary';
+import { DEFAULT_QC_CONFIG, mergeQCConfig } from '../utils/qc';
+import type { SDHElement } from '../utils/sdh';
+import { DEFAULT_SDH_ELEMENTS, SDH_ELEMENTS } from '../utils/sdh';
+import { parseOffset } from '../utils/timing';
+import { validateParseOptions } from '../utils/validation';
+import type { Command, CommandOptions } from './commands';
+import { COMMANDS, isCommandName } from './commands';
+import { expandInputs } from './files';
+
+/**
+ * Command line tool for subtitle files, built on the same parsing, export
+ * and QC code as the web app:
+ *
+ *   bun run cli convert "season-1/*.ass" --to srt --out-dir out
+ *   bun run cli lint subs/ --json
+ *
+ * Exit codes are listed in EXIT_CODES.
+ */
+
+export const EXIT_CODES = {
+  ok: 0,
+  // lint found errors, or warnings with --strict
+  issues: 1,
+  // unknown command or option, invalid value, no input files
+  usage: 2,
+  // a file could not be read, converted or written
+  failed: 3,
+} as const;
+
+const USAGE = `Usage: bun run cli <command> <files, directories or globs...> [options]
+
+Commands:
+${Object.entries(COMMANDS)
+  .map(([name, command]) => `  ${name.padEnd(10)}${command.summary}`)
+  .join('\n')}
+
+Options:
+  --from <format>            Input format, detected by default
+  --encoding <encoding>      Input encoding, detected by default
+  --fps <rate>               Frame rate of MicroDVD (.sub) files
+  --to <format>              Output format, the input format by default
+  --output-encoding <enc>    Output encoding, UTF-8 with a BOM by default
+  --line-ending <crlf|lf>    Output line endings, crlf by default
+  --remove-sdh <list>        Hearing-impaired annotations to remove, comma separated
+                             (${Object.keys(SDH_ELEMENTS).join(', ')}) or all,
+                             which leaves out caps
+  -o, --out-dir <dir>        Write outputs there instead of next to the inputs
+  -f, --force                Replace existing files, the input included
+  --by <offset>              shift: seconds or a timecode, e.g. --by=-1.5 or --by 00:00:02,000
+  --config <file>            lint: JSON QC settings, as saved by the editor
+  --strict                   lint: fail on warnings too
+  --provider <name>          optimize: gemini, openai or mock ($LLM_PROVIDER)
+  --model <model>            optimize: model name ($LLM_MODEL)
+  --base-url <url>           optimize: OpenAI-compatible endpoint ($LLM_BASE_URL)
+  --api-key <key>            optimize: provider key ($LLM_API_KEY)
+  --glossary <file>          optimize: terms, one per line as on the translate page
+  --json                     Print the results as JSON
+  -h, --help                 Show this help
+`;
+
+class UsageError extends Error {}
+
+const OPTIONS = {
+  from: { type: 'string' },
+  encoding: { type: 'string' },
+  fps: { type: 'string' },
+  to: { type: 'string' },
+  'output-encoding': { type: 'string' },
+  'line-ending': { type: 'string' },
+  'remove-sdh': { type: 'string' },
+  'out-dir': { type: 'string', short: 'o' },
+  force: { type: 'boolean', short: 'f' },
+  by: { type: 'string' },
+  config: { type: 'string' },
+  strict: { type: 'boolean' },
+  provider: { type: 'string' },
+  model: { type: 'string' },
+  'base-url': { type: 'string' },
+  'api-key': { type: 'string' },
+  glossary: { type: 'string' },
+  json: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+type ParsedValues = ReturnType<typeof parseArgs<{ options: typeof OPTIONS }>>['values'];
+
+async function readOptions(command: string, values: ParsedValues): Promise<CommandOptions> {
+  const fps = values.fps !== undefined ? Number(values.fps) : undefined;
+  const readError = validateParseOptions({ fps, encoding: values.encoding, format: values.from });
+  if (readError) throw new UsageError(readError);
+
+  if (values.to !== undefined && !isSupportedFormat(values.to)) {
+    throw new UsageError('Unsupported subtitle format');
+  }
+  const removeSDH =
+    values['remove-sdh'] === 'all'
+      ? DEFAULT_SDH_ELEMENTS
+      : values['remove-sdh']?.split(',').map((element) => element.trim());
+  const writeError = validateExportOptions({
+    encoding: values['output-encoding'],
+    lineEnding: values['line-ending'],
+    removeSDH,
+  });
+  if (writeError) throw new UsageError(writeError);
+
+  let offset: number | undefined;
+  if (command === 'shift') {
+    const by = values.by === undefined ? null : parseOffset(values.by);
+    if (by === null) throw new UsageError('shift needs an offset, e.g. --by=-1.5');
+    offset = by;
+  }
+
+  let qc = DEFAULT_QC_CONFIG;
+  if (values.config !== undefined) {
+    try {
+      qc = mergeQCConfig(JSON.parse(await readFile(values.config, 'utf8')));
+    } catch (error) {
+      throw new UsageError(
+        `Could not read ${values.config}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  const env = process.env;
+  return {
+    from: values.from as SupportedFormat | undefined,
+    encoding: values.encoding,
+    fps,
+    to: values.to as SupportedFormat | undefined,
+    outputEncoding: values['output-encoding'] as OutputEncoding | undefined,
+    lineEnding: values['line-ending'] as LineEnding | undefined,
+    removeSDH: removeSDH as SDHElement[] | undefined,
+    outDir: values['out-dir'],
+    force: values.force ?? false,
+    offset,
+    qc,
+    strict: values.strict ?? false,
+    llm: {
+      provider: (values.provider ?? env.LLM_PROVIDER) as LLMProviderName | undefined,
+      model: values.model ?? env.LLM_MODEL,
+      baseUrl: values['base-url'] ?? env.LLM_BASE_URL,
+      apiKey: values['api-key'] ?? env.LLM_API_KEY,
+    },
+    glossary: values.glossary ? parseGlossary(await readFile(values.glossary, 'utf8')) : [],
+  };
+}
+
+async function main(args: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({ args, options: OPTIONS, allowPositionals: true });
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return EXIT_CODES.usage;
+  }
+  const { values, positionals } = parsed;
+  const [name, ...inputs] = positionals;
+
+  if (values.help || name === undefined || name === 'help') {
+    console.log(USAGE);
+    return values.help || name === 'help' ? EXIT_CODES.ok : EXIT_CODES.usage;
+  }
+  if (!isCommandName(name)) {
+    console.error(`Unknown command: ${name}\n\n${USAGE}`);
+    return EXIT_CODES.usage;
+  }
+
+  let options: CommandOptions;
+  let files: string[];
+  try {
+    if (inputs.length === 0) throw new UsageError('No input files');
+    options = await readOptions(name, values);
+    files = await expandInputs(inputs);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return EXIT_CODES.usage;
+  }
+
+  // Every command has its own result type, they are only passed through
+  const command = COMMANDS[name] as Command<unknown>;
+  const results: unknown[] = [];
+  let exitCode: number = EXIT_CODES.ok;
+
+  // One file at a time, a failed file doesn't stop the others
+  for (const file of files) {
+    try {
+      const result = await command.run(file, options);
+      results.push(result);
+      if (command.fails?.(result, options) && exitCode === EXIT_CODES.ok) {
+        exitCode = EXIT_CODES.issues;
+      }
+      if (!values.json) console.log(command.format(result));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      results.push({ file, error: message });
+      exitCode = EXIT_CODES.failed;
+      if (!values.json) console.error(`${file}: ${message}`);
+    }
+  }
+
+  if (values.json) {
+    console.log(JSON.stringify({ command: name, exitCode, results }, null, 2));
+  }
+  return exitCode;
+}
+
+process.exitCode = await main(process.argv.slice(2));
@@ -0,0 +1,12 @@
+/// <reference path="../.astro/types.d.ts" />
+
+type Runtime = import('@astrojs/cloudflare').Runtime<{
+  // RateLimitCounter objects, shares rate limit counts between isolates
+  RATE_LIMITER?: import('./utils/rate-limit').DurableObjectNamespaceLike;
+  // OpenAI-compatible servers requests may name as baseUrl, comma separated
+  LLM_BASE_URLS?: string;
+}>;
+
+declare namespace App {
+  interface Locals extends Runtime {}
+}
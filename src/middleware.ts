@@ -0,0 +1,63 @@
+import { defineMiddleware } from 'astro:middleware';
+import { errorResponse } from './utils/api';
+import type { RateLimitStore } from './utils/rate-limit';
+import {
+  DurableObjectRateLimitStore,
+  MemoryRateLimitStore,
+  checkRateLimit,
+  clientAddress,
+  rateLimitHeaders,
+  routeLimit,
+} from './utils/rate-limit';
+
+// Used without a RATE_LIMITER binding, e.g. in `astro dev`
+const memoryStore = new MemoryRateLimitStore();
+
+function rateLimitStore(locals: App.Locals): RateLimitStore {
+  try {
+    const namespace = locals.runtime?.env?.RATE_LIMITER;
+    return namespace ? new DurableObjectRateLimitStore(namespace) : memoryStore;
+  } catch {
+    // The Cloudflare runtime is not available outside Workers
+    return memoryStore;
+  }
+}
+
+// Every API route is rate limited per client, see utils/rate-limit
+export const onRequest = defineMiddleware(async (context, next) => {
+  const { pathname } = context.url;
+  if (!pathname.startsWith('/api/')) {
+    return next();
+  }
+
+  const limit = routeLimit(pathname);
+  let headers: Record<string, string>;
+  try {
+    const result = await checkRateLimit(
+      rateLimitStore(context.locals),
+      clientAddress(context.request),
+      pathname,
+      limit
+    );
+    headers = rateLimitHeaders(result);
+    if (!result.allowed) {
+      return errorResponse(429, 'quota', 'Too many requests. Please try again later.', headers);
+    }
+  } catch (error) {
+    // A store outage shouldn't take the API down with it, except the routes
+    // that call a model, which would then be unlimited
+    console.error('Rate limit check failed:', error);
+    if (limit.failClosed) {
+      return errorResponse(503, 'unavailable', 'The service is busy. Please try again shortly.', {
+        'Retry-After': String(limit.windowSeconds),
+      });
+    }
+    return next();
+  }
+
+  const response = await next();
+  for (const [name, value] of Object.entries(headers)) {
+    response.headers.set(name, value);
+  }
+  return response;
+});
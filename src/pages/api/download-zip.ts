@@ -0,0 +1,129 @@
+import type { APIRoute } from 'astro';
+import type { SupportedFormat } from '../../utils/formats';
+import { SUPPORTED_FORMATS, isSupportedFormat } from '../../utils/formats';
+import { isSupportedLanguage } from '../../utils/languages';
+import { exportSubtitles, validateExportOptions } from '../../utils/export';
+import { createZip, uniqueNames } from '../../utils/zip';
+
+// Enable server-side rendering
+export const prerender = false;
+
+// A season or two, each file is built in memory
+const MAX_ZIP_FILES = 100;
+
+// Entries keep the original names, tagged with the language so video
+// players pick them up: "Show S01E01.srt" -> "Show S01E01.es.srt"
+function entryName(filename: string, format: SupportedFormat, language?: string): string {
+  const base = filename.split(/[/\\]/).pop()!.replace(/\.[^.]+$/, '');
+  return `${base}${language ? `.${language}` : ''}.${SUPPORTED_FORMATS[format]}`;
+}
+
+/**
+ * Build several subtitle files and return them as one ZIP. Each file has its
+ * own captions, format and ASS/SSA document, the download options are shared.
+ */
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const body = await request.json();
+    const { files, language, bilingual, fps, encoding, lineEnding, removeSDH } = body;
+
+    if (!Array.isArray(files) || files.length === 0) {
+      return new Response(JSON.stringify({ error: 'Invalid request data' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (files.length > MAX_ZIP_FILES) {
+      return new Response(
+        JSON.stringify({ error: `Maximum ${MAX_ZIP_FILES} files per download` }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const invalid = files.findIndex(
+      (file: any) =>
+        !Array.isArray(file?.subtitles) ||
+        typeof file.filename !== 'string' ||
+        !file.filename ||
+        !isSupportedFormat(file.format)
+    );
+    if (invalid !== -1) {
+      return new Response(
+        JSON.stringify({ error: `Invalid data for file ${invalid + 1}` }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    if (language !== undefined && !isSupportedLanguage(language)) {
+      return new Response(JSON.stringify({ error: 'Unsupported language' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const optionsError = validateExportOptions(body);
+    if (optionsError) {
+      return new Response(JSON.stringify({ error: optionsError }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const names = uniqueNames(
+      files.map((file: any) => entryName(file.filename, file.format, language))
+    );
+
+    let unmappable = 0;
+    const entries = [];
+    for (const [i, file] of files.entries()) {
+      try {
+        const exported = exportSubtitles(file.subtitles, file.format, {
+          document: file.document,
+          bilingual,
+          fps,
+          encoding,
+          lineEnding,
+          removeSDH,
+        });
+        unmappable += exported.unmappable;
+        entries.push({ name: names[i], data: exported.bytes });
+      } catch (buildError) {
+        console.error(`Error building ${file.filename}:`, buildError);
+        return new Response(
+          JSON.stringify({
+            error: `Failed to convert ${file.filename} to the requested format`,
+          }),
+          {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': 'attachment; filename="subtitles-subtitletranslatorai.com.zip"',
+      'Cache-Control': 'no-store',
+    };
+    if (unmappable > 0) {
+      headers['X-Unmappable-Characters'] = unmappable.toString();
+    }
+    return new Response(new Blob([createZip(entries)], { type: 'application/zip' }), {
+      headers,
+    });
+  } catch (error) {
+    console.error('Error processing ZIP download:', error);
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -1,39 +1,27 @@
 import type { APIRoute } from 'astro';
-import subsrt from 'subsrt-ts';
-
-// Supported subtitle formats and their file extensions
-const SUPPORTED_FORMATS = {
-  srt: 'srt',
-  vtt: 'vtt',
-  sub: 'sub',
-  sbv: 'sbv',
-  lrc: 'lrc',
-  smi: 'smi',
-  ssa: 'ssa',
-  ass: 'ass',
-  json: 'json',
-} as const;
-
-type SupportedFormat = keyof typeof SUPPORTED_FORMATS;
-
-// Content type mapping for different formats
-const CONTENT_TYPES = {
-  srt: 'application/x-subrip',
-  vtt: 'text/vtt',
-  sub: 'text/plain',
-  sbv: 'text/plain',
-  lrc: 'text/plain',
-  smi: 'text/plain',
-  ssa: 'text/plain',
-  ass: 'text/plain',
-  json: 'application/json',
-} as const;
+import { isSupportedFormat } from '../../utils/formats';
+import type { ExportedFile } from '../../utils/export';
+import {
+  exportSubtitles,
+  contentDisposition,
+  validateExportOptions,
+} from '../../utils/export';
 
 export const POST: APIRoute = async ({ request }) => {
   try {
     // Parse the request body
     const body = await request.json();
-    const { subtitles, format, filename } = body;
+    const {
+      subtitles,
+      format,
+      filename,
+      document,
+      bilingual,
+      fps,
+      encoding,
+      lineEnding,
+      removeSDH,
+    } = body;
 
     // Validate request data
     if (!subtitles || !Array.isArray(subtitles) || !format || !filename) {
@@ -49,7 +37,7 @@ export const POST: APIRoute = async ({ request }) => {
     }
 
     // Validate format
-    if (!Object.keys(SUPPORTED_FORMATS).includes(format)) {
+    if (!isSupportedFormat(format)) {
       return new Response(
         JSON.stringify({
           error: 'Unsupported subtitle format',
@@ -61,29 +49,30 @@ export const POST: APIRoute = async ({ request }) => {
       );
     }
 
-    // Process subtitles into the format expected by subsrt
-    const processedSubtitles = subtitles.map((sub) => ({
-      start: sub.start,
-      end: sub.end,
-      duration: sub.end - sub.start,
-      text: sub.text || sub.content,
-      settings: {},
-    }));
-
-    // Convert subtitles to requested format
-    const options = {
-      format: format as SupportedFormat,
-      fps: 25, // for SUB format
-      verbose: false,
-    };
+    const optionsError = validateExportOptions(body);
+    if (optionsError) {
+      return new Response(
+        JSON.stringify({
+          error: optionsError,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
 
     // Build the content with proper error handling
-    let content;
+    let file: ExportedFile;
     try {
-      content = subsrt.build(processedSubtitles, options);
-      if (!content) {
-        throw new Error('Failed to build subtitle content');
-      }
+      file = exportSubtitles(subtitles, format, {
+        document,
+        bilingual,
+        fps,
+        encoding,
+        lineEnding,
+        removeSDH,
+      });
     } catch (buildError) {
       console.error('Error building subtitles:', buildError);
       return new Response(
@@ -97,38 +86,18 @@ export const POST: APIRoute = async ({ request }) => {
       );
     }
 
-    // Generate output filename
-    const extension = SUPPORTED_FORMATS[format as SupportedFormat];
-    const outputFilename =
-      filename.replace(/\.[^/.]+$/, '') +
-      '-subtitletranslatorai.com.' +
-      extension;
-
-    // Add BOM for UTF-8 text files
-    const textFormats = [
-      'srt',
-      'vtt',
-      'sub',
-      'sbv',
-      'lrc',
-      'smi',
-      'ssa',
-      'ass',
-    ];
-    const bom = new Uint8Array([0xef, 0xbb, 0xbf]);
-    const finalContent = textFormats.includes(format)
-      ? new Blob([bom, content], {
-          type: CONTENT_TYPES[format as SupportedFormat],
-        })
-      : new Blob([content], { type: CONTENT_TYPES[format as SupportedFormat] });
-
     // Return the file with appropriate headers
-    return new Response(finalContent, {
-      headers: {
-        'Content-Type': CONTENT_TYPES[format as SupportedFormat],
-        'Content-Disposition': `attachment; filename="${outputFilename}"`,
-        'Cache-Control': 'no-store',
-      },
+    const headers: Record<string, string> = {
+      'Content-Type': file.contentType,
+      'Content-Disposition': contentDisposition(filename, format),
+      'Cache-Control': 'no-store',
+    };
+    // Characters the encoding can't represent were written as "?"
+    if (file.unmappable > 0) {
+      headers['X-Unmappable-Characters'] = file.unmappable.toString();
+    }
+    return new Response(new Blob([file.bytes], { type: file.contentType }), {
+      headers,
     });
   } catch (error) {
     console.error('Error processing subtitle download:', error);
@@ -1,23 +1,34 @@
 import type { APIRoute } from 'astro';
-import subsrt from 'subsrt-ts';
-import { Readable } from 'stream';
+import { isSupportedFormat } from '../../utils/formats';
+import {
+  contentDisposition,
+  streamSubtitles,
+  validateExportOptions,
+} from '../../utils/export';
 
 export const prerender = false;
 
-// Helper to convert subtitle object to string format
-const formatSubtitle = (format: string, subtitle: any) => {
-  const parser = new subsrt.SubtitleParser();
-  return parser.stringifySync([subtitle], { format });
-};
-
-export const post: APIRoute = async ({ request }) => {
-  const CHUNK_SIZE = 100; // Process 100 subtitles at a time
-
+/**
+ * Same request and file as /api/download, written to the response a chunk
+ * of cues at a time. Used for very long files, which would otherwise be
+ * built in memory as a whole.
+ */
+export const POST: APIRoute = async ({ request }) => {
   try {
-    const data = await request.json();
-    const { subtitles, format, filename } = data;
+    const body = await request.json();
+    const {
+      subtitles,
+      format,
+      filename,
+      document,
+      bilingual,
+      fps,
+      encoding,
+      lineEnding,
+      removeSDH,
+    } = body;
 
-    if (!Array.isArray(subtitles) || subtitles.length === 0) {
+    if (!Array.isArray(subtitles) || subtitles.length === 0 || !format || !filename) {
       return new Response(
         JSON.stringify({ error: 'No valid subtitles provided' }),
         {
@@ -27,56 +38,41 @@ export const post: APIRoute = async ({ request }) => {
       );
     }
 
-    // Set up response headers for streaming
-    const headers = new Headers({
-      'Content-Type': 'text/plain; charset=utf-8',
-      'Transfer-Encoding': 'chunked',
-      'Content-Disposition': `attachment; filename="${filename}"`,
-      'Cache-Control': 'no-cache',
-      'X-Content-Type-Options': 'nosniff',
+    if (!isSupportedFormat(format)) {
+      return new Response(
+        JSON.stringify({ error: 'Unsupported subtitle format' }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const optionsError = validateExportOptions(body);
+    if (optionsError) {
+      return new Response(JSON.stringify({ error: optionsError }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { contentType, stream } = streamSubtitles(subtitles, format, {
+      document,
+      bilingual,
+      fps,
+      encoding,
+      lineEnding,
+      removeSDH,
     });
 
-    // Create readable stream from subtitle chunks
-    const stream = new Readable({
-      read() {
-        // Implementation handled by push() calls
+    return new Response(stream, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': contentDisposition(filename, format),
+        'Cache-Control': 'no-store',
+        'X-Content-Type-Options': 'nosniff',
       },
     });
-
-    let currentIndex = 0;
-
-    // Process subtitles in chunks
-    const processNextChunk = () => {
-      if (currentIndex >= subtitles.length) {
-        stream.push(null); // End of stream
-        return;
-      }
-
-      const chunk = subtitles.slice(currentIndex, currentIndex + CHUNK_SIZE);
-
-      try {
-        // Format each subtitle in the chunk
-        const formattedChunk = chunk
-          .map((subtitle) => formatSubtitle(format, subtitle))
-          .join('\\n');
-
-        stream.push(formattedChunk);
-        currentIndex += CHUNK_SIZE;
-
-        // Process next chunk on next tick
-        setTimeout(processNextChunk, 0);
-      } catch (error) {
-        console.error('Error processing chunk:', error);
-        stream.destroy(
-          error instanceof Error ? error : new Error('Processing error')
-        );
-      }
-    };
-
-    // Start processing
-    processNextChunk();
-
-    return new Response(stream, { headers });
   } catch (error) {
     console.error('Stream processing error:', error);
     return new Response(
@@ -0,0 +1,70 @@
+import type { APIRoute } from 'astro';
+import type {
+  GeminiTranslateRequest,
+  GeminiTranslateResponse,
+} from '../../types/gemini';
+import { normalizeGlossary } from '../../utils/glossary';
+import { createProvider, translateSubtitles } from '../../utils/llm';
+import { allowedBaseUrls, errorResponse, errorResponseOf } from '../../utils/api';
+import { validateLanguages, validateSubtitleItems } from '../../utils/validation';
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Parse request body
+    const body: GeminiTranslateRequest = await request.json();
+    const { subtitles, sourceLanguage, targetLanguage } = body;
+
+    // Validate request, the client batches the file
+    const requestError =
+      validateLanguages(sourceLanguage, targetLanguage) ?? validateSubtitleItems(subtitles);
+    if (requestError) {
+      return errorResponse(400, 'invalid_request', requestError);
+    }
+
+    // Filter out empty subtitles, there is nothing to translate in them
+    const validSubtitles = subtitles.filter(
+      (sub) =>
+        typeof sub?.index === 'number' &&
+        typeof sub.content === 'string' &&
+        sub.content.trim().length > 0
+    );
+
+    if (validSubtitles.length === 0) {
+      return errorResponse(400, 'invalid_request', 'No valid subtitles to translate');
+    }
+
+    // Resolve the provider and model requested by the client
+    const { provider, model } = createProvider(body, allowedBaseUrls(locals));
+    const glossary = normalizeGlossary(body.glossary);
+
+    console.log(
+      `Translating ${validSubtitles.length} subtitles to ${targetLanguage} with ${provider.name}/${model}`
+    );
+
+    // The model occasionally drops lines, those are asked for once more
+    const { translations, diagnostics } = await translateSubtitles(
+      provider,
+      model,
+      validSubtitles,
+      sourceLanguage,
+      targetLanguage,
+      glossary
+    );
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        translations,
+        missing: diagnostics.failed,
+        diagnostics,
+      } as GeminiTranslateResponse),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error in translate endpoint:', error);
+    return errorResponseOf(error, 'Failed to translate subtitles');
+  }
+};
@@ -1,13 +1,12 @@
 import type { APIRoute } from 'astro';
-import { validateSubtitleFile, parseSubtitleFile } from '../../utils/subtitle';
+import { validateSubtitleFile, parseSubtitleDocument } from '../../utils/subtitle';
+import { validateParseOptions } from '../../utils/validation';
 
 // Enable server-side rendering
 export const prerender = false;
 
-// Rate limiting setup
-const RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute
-const MAX_REQUESTS_PER_WINDOW = 10;
-const requestCounts = new Map<string, { count: number; timestamp: number }>();
+// Batch uploads send their files as "files", all in one request
+const MAX_FILES_PER_UPLOAD = 100;
 
 export const POST: APIRoute = async ({ request }) => {
   try {
@@ -25,34 +24,63 @@ export const POST: APIRoute = async ({ request }) => {
       );
     }
 
-    // Rate limiting check
-    const clientIP = request.headers.get('x-forwarded-for') || 'unknown';
-    const now = Date.now();
-    const clientRequests = requestCounts.get(clientIP);
+    const formData = await request.formData();
+
+    // Frame rate of MicroDVD files, which are timed in frames, and the
+    // encoding picked by the user, detected from the file otherwise
+    const fps = formData.get('fps') ? Number(formData.get('fps')) : undefined;
+    const encodingOverride = (formData.get('encoding') as string | null) || undefined;
+    const optionsError = validateParseOptions({ fps, encoding: encodingOverride });
+    if (optionsError) {
+      return new Response(JSON.stringify({ error: optionsError }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
 
-    if (clientRequests) {
-      if (now - clientRequests.timestamp < RATE_LIMIT_WINDOW) {
-        if (clientRequests.count >= MAX_REQUESTS_PER_WINDOW) {
-          return new Response(
-            JSON.stringify({
-              error: 'Too many requests. Please try again later.',
-            }),
-            {
-              status: 429,
-              headers: { 'Content-Type': 'application/json' },
-            }
-          );
+    // Several files for batch translation, each one is parsed on its own so
+    // a broken file doesn't fail the others
+    const batch = formData
+      .getAll('files')
+      .filter((entry): entry is File => entry instanceof File);
+    if (batch.length > MAX_FILES_PER_UPLOAD) {
+      return new Response(
+        JSON.stringify({ error: `Maximum ${MAX_FILES_PER_UPLOAD} files per upload` }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+    if (batch.length > 0) {
+      const files = [];
+      for (const file of batch) {
+        const validation = validateSubtitleFile(file);
+        if (!validation.isValid) {
+          files.push({ success: false, error: validation.error, filename: file.name });
+          continue;
+        }
+        try {
+          const { captions, document, encoding } = await parseSubtitleDocument(file, {
+            fps,
+            encoding: encodingOverride,
+          });
+          files.push({ success: true, data: captions, document, encoding, filename: file.name });
+        } catch (error) {
+          files.push({
+            success: false,
+            error: error instanceof Error ? error.message : 'Error processing subtitle file',
+            filename: file.name,
+          });
         }
-        clientRequests.count++;
-      } else {
-        requestCounts.set(clientIP, { count: 1, timestamp: now });
       }
-    } else {
-      requestCounts.set(clientIP, { count: 1, timestamp: now });
+      return new Response(JSON.stringify({ success: true, files }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
     }
 
     // Handle file upload
-    const formData = await request.formData();
     const file = formData.get('file') as File;
 
     if (!file) {
@@ -72,13 +100,18 @@ export const POST: APIRoute = async ({ request }) => {
     }
 
     // Parse subtitle file
-    const subtitles = await parseSubtitleFile(file);
+    const { captions, document, encoding } = await parseSubtitleDocument(file, {
+      fps,
+      encoding: encodingOverride,
+    });
 
-    // Return parsed subtitles
+    // Return parsed subtitles, plus the ASS/SSA header for the download
     return new Response(
       JSON.stringify({
         success: true,
-        data: subtitles,
+        data: captions,
+        document,
+        encoding,
         filename: file.name,
       }),
       {
@@ -101,13 +134,3 @@ export const POST: APIRoute = async ({ request }) => {
     );
   }
 };
-
-// Clean up old rate limit entries periodically
-setInterval(() => {
-  const now = Date.now();
-  for (const [ip, data] of requestCounts.entries()) {
-    if (now - data.timestamp >= RATE_LIMIT_WINDOW) {
-      requestCounts.delete(ip);
-    }
-  }
-}, RATE_LIMIT_WINDOW);
@@ -0,0 +1,30 @@
+import type { APIRoute } from 'astro';
+import {
+  ApiError,
+  errorResponseOf,
+  fileResponse,
+  readOutputOptions,
+  readSubtitleUpload,
+  toSubtitleInputs,
+} from '../../../utils/api';
+
+// Enable server-side rendering
+export const prerender = false;
+
+/**
+ * Convert a subtitle file in one request: the file goes in as multipart
+ * `file` and comes back in the format `to`. See /api/v1/openapi.json.
+ */
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const upload = await readSubtitleUpload(request);
+    const output = readOutputOptions(upload);
+
+    return fileResponse(toSubtitleInputs(upload.captions), output);
+  } catch (error) {
+    if (!(error instanceof ApiError)) {
+      console.error('Error in v1 convert endpoint:', error);
+    }
+    return errorResponseOf(error, 'Failed to convert subtitles');
+  }
+};
@@ -0,0 +1,14 @@
+import type { APIRoute } from 'astro';
+import { openAPIDocument } from '../../../utils/openapi';
+
+// Enable server-side rendering
+export const prerender = false;
+
+// The contract of /api/v1, for clients and code generators
+export const GET: APIRoute = ({ url }) =>
+  new Response(JSON.stringify(openAPIDocument(url.origin), null, 2), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'public, max-age=3600',
+    },
+  });
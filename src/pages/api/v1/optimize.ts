@@ -0,0 +1,62 @@
+import type { APIRoute } from 'astro';
+import {
+  ApiError,
+  MAX_LINES_PER_FILE,
+  allowedBaseUrls,
+  errorResponseOf,
+  fileResponse,
+  readGlossary,
+  readLLMOptions,
+  readOutputOptions,
+  readSubtitleUpload,
+  toSubtitleInputs,
+} from '../../../utils/api';
+import { createProvider, optimizeFile } from '../../../utils/llm';
+import { validateSubtitleItems } from '../../../utils/validation';
+
+// Enable server-side rendering
+export const prerender = false;
+
+/**
+ * AI optimize a whole subtitle file, in the language it is written in: the
+ * file goes in as multipart `file` and comes back in the format `to`. Lines
+ * the model got wrong are unchanged and listed in X-Failed-Lines. See
+ * /api/v1/openapi.json.
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const upload = await readSubtitleUpload(request);
+    const output = readOutputOptions(upload);
+    const { form } = upload;
+
+    const lines = upload.captions
+      .filter((caption) => caption.content.trim())
+      .map(({ index, content }) => ({ index, content }));
+    const linesError = validateSubtitleItems(lines, MAX_LINES_PER_FILE);
+    if (linesError) {
+      throw new ApiError(400, 'invalid_request', linesError);
+    }
+
+    const { provider, model } = createProvider(readLLMOptions(request, form), allowedBaseUrls(locals));
+
+    console.log(
+      `Optimizing ${lines.length} subtitles of ${upload.filename} with ${provider.name}/${model}`
+    );
+
+    const { optimized, failed } = await optimizeFile(provider, model, lines, readGlossary(form));
+
+    return fileResponse(
+      toSubtitleInputs(
+        upload.captions,
+        Object.fromEntries(optimized.map((item) => [item.index, item.content]))
+      ),
+      output,
+      failed.length > 0 ? { 'X-Failed-Lines': failed.join(',') } : {}
+    );
+  } catch (error) {
+    if (!(error instanceof ApiError)) {
+      console.error('Error in v1 optimize endpoint:', error);
+    }
+    return errorResponseOf(error, 'Failed to optimize subtitles');
+  }
+};
@@ -0,0 +1,74 @@
+import type { APIRoute } from 'astro';
+import {
+  ApiError,
+  MAX_LINES_PER_FILE,
+  allowedBaseUrls,
+  errorResponseOf,
+  fileResponse,
+  formField,
+  readGlossary,
+  readLLMOptions,
+  readOutputOptions,
+  readSubtitleUpload,
+  toSubtitleInputs,
+} from '../../../utils/api';
+import { createProvider, translateFile } from '../../../utils/llm';
+import { AUTO_DETECT } from '../../../utils/languages';
+import { validateLanguages, validateSubtitleItems } from '../../../utils/validation';
+
+// Enable server-side rendering
+export const prerender = false;
+
+/**
+ * Translate a whole subtitle file: the file goes in as multipart `file` and
+ * comes back translated, in the format `to`. Lines the model got wrong keep
+ * their text and are listed in X-Failed-Lines. See /api/v1/openapi.json.
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const upload = await readSubtitleUpload(request);
+    const output = readOutputOptions(upload);
+    const { form } = upload;
+
+    const sourceLanguage = formField(form, 'sourceLanguage') ?? AUTO_DETECT;
+    const targetLanguage = formField(form, 'targetLanguage');
+    const languageError = validateLanguages(sourceLanguage, targetLanguage);
+    if (languageError) {
+      throw new ApiError(400, 'invalid_request', languageError);
+    }
+
+    const lines = upload.captions
+      .filter((caption) => caption.content.trim())
+      .map(({ index, content }) => ({ index, content }));
+    const linesError = validateSubtitleItems(lines, MAX_LINES_PER_FILE);
+    if (linesError) {
+      throw new ApiError(400, 'invalid_request', linesError);
+    }
+
+    const { provider, model } = createProvider(readLLMOptions(request, form), allowedBaseUrls(locals));
+
+    console.log(
+      `Translating ${lines.length} subtitles of ${upload.filename} to ${targetLanguage} with ${provider.name}/${model}`
+    );
+
+    const { translations, failed } = await translateFile(
+      provider,
+      model,
+      lines,
+      sourceLanguage,
+      targetLanguage!,
+      readGlossary(form)
+    );
+
+    return fileResponse(
+      toSubtitleInputs(upload.captions, translations),
+      output,
+      failed.length > 0 ? { 'X-Failed-Lines': failed.join(',') } : {}
+    );
+  } catch (error) {
+    if (!(error instanceof ApiError)) {
+      console.error('Error in v1 translate endpoint:', error);
+    }
+    return errorResponseOf(error, 'Failed to translate subtitles');
+  }
+};
@@ -1,59 +1,106 @@
-// Type definitions
-type SubtitleData = {
-  index: number;
-  start: string;
-  end: string;
-  content: string;
-};
-
-type ProcessRequest = {
-  type: 'process';
-  subtitles: SubtitleData[];
-  format: string;
-  filename: string;
-};
-
-// Listen for messages from the main thread
-self.addEventListener('message', async (e: MessageEvent<ProcessRequest>) => {
-  if (e.data.type === 'process') {
-    const { subtitles, format, filename } = e.data;
-
-    try {
-      // Process subtitles in chunks of 100
-      const CHUNK_SIZE = 100;
-      const chunks = Math.ceil(subtitles.length / CHUNK_SIZE);
-
-      for (let i = 0; i < chunks; i++) {
-        const start = i * CHUNK_SIZE;
-        const end = Math.min(start + CHUNK_SIZE, subtitles.length);
-        const chunk = subtitles.slice(start, end);
-
-        // Process chunk
-        const processed = chunk.map((sub) => ({
-          ...sub,
-          // Add any additional processing here
-        }));
-
-        // Report progress
-        self.postMessage({
-          type: 'progress',
-          progress: (end / subtitles.length) * 100,
-          processed,
-        });
+import { exportSubtitlesInChunks } from '../utils/export';
+import { lintSubtitlesInChunks } from '../utils/qc';
+import { replaceInCues } from '../utils/search';
+import { parseSubtitleDocumentInChunks, validateSubtitleFile } from '../utils/subtitle';
+import { CUE_CHUNK_SIZE } from '../utils/worker';
+import type {
+  WorkerRequest,
+  WorkerResponse,
+  WorkerResults,
+  WorkerTask,
+} from '../utils/worker';
+
+/**
+ * Subtitle work that would freeze the page on long files, see utils/worker
+ * for the messages. Tasks pause between chunks, which is when progress is
+ * reported and cancel messages get through.
+ */
+
+// Cancel requests of running tasks
+const running = new Map<number, AbortController>();
+
+const post = (message: WorkerResponse, transfer: Transferable[] = []) =>
+  self.postMessage(message, { transfer });
+
+// Lets queued messages, cancels included, run before the next chunk
+const nextTask = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+async function run(
+  task: WorkerTask,
+  signal: AbortSignal,
+  onProgress: (progress: number) => void
+): Promise<WorkerResults[WorkerTask['type']]> {
+  // Called between chunks with how much of the task is done
+  const afterChunk = async (progress: number) => {
+    onProgress(progress);
+    await nextTask();
+    signal.throwIfAborted();
+  };
+
+  switch (task.type) {
+    case 'parse': {
+      const validation = validateSubtitleFile(task.file);
+      if (!validation.isValid) {
+        throw new Error(validation.error);
       }
+      return parseSubtitleDocumentInChunks(
+        task.file,
+        { fps: task.fps, encoding: task.encoding },
+        (done, total) => afterChunk(done / total)
+      );
+    }
 
-      // Signal completion
-      self.postMessage({
-        type: 'complete',
-        filename,
-      });
-    } catch (error) {
-      // Report error
-      self.postMessage({
+    case 'build':
+      return exportSubtitlesInChunks(task.subtitles, task.format, task.options, (done, total) =>
+        afterChunk(done / total)
+      );
+
+    case 'replace': {
+      const changes: WorkerResults['replace'] = [];
+      for (let offset = 0; offset < task.cues.length; offset += CUE_CHUNK_SIZE) {
+        changes.push(
+          ...replaceInCues(task.cues.slice(offset, offset + CUE_CHUNK_SIZE), task.query, task.replacement)
+        );
+        await afterChunk(Math.min(offset + CUE_CHUNK_SIZE, task.cues.length) / task.cues.length);
+      }
+      return changes;
+    }
+
+    case 'qc':
+      return lintSubtitlesInChunks(task.cues, task.config, (done, total) =>
+        afterChunk(done / total)
+      );
+  }
+}
+
+self.addEventListener('message', async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    running.get(request.id)?.abort();
+    return;
+  }
+
+  const { id, task } = request;
+  const controller = new AbortController();
+  running.set(id, controller);
+  try {
+    const result = await run(task, controller.signal, (progress) =>
+      post({ id, type: 'progress', progress })
+    );
+    // Built files are handed over instead of copied
+    const transfer = task.type === 'build' ? [(result as WorkerResults['build']).bytes.buffer] : [];
+    post({ id, type: 'result', result }, transfer);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      post({ id, type: 'cancelled' });
+    } else {
+      post({
+        id,
         type: 'error',
-        error:
-          error instanceof Error ? error.message : 'Unknown error occurred',
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
       });
     }
+  } finally {
+    running.delete(id);
   }
 });
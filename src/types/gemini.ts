@@ -1,5 +1,5 @@
 /**
- * TypeScript types for Gemini AI subtitle optimization
+ * TypeScript types for AI subtitle optimization and translation
  */
 
 export interface SubtitleItem {
@@ -7,15 +7,105 @@ export interface SubtitleItem {
   content: string;
 }
 
-export interface GeminiOptimizeRequest {
-  apiKey: string;
+/**
+ * LLM backends that can serve optimize/translate requests
+ */
+export type LLMProviderName = 'gemini' | 'openai' | 'mock';
+
+/**
+ * Typed failure reasons returned by the AI endpoints
+ */
+export type LLMErrorCode =
+  | 'auth'
+  | 'quota'
+  | 'malformed_output'
+  | 'invalid_request'
+  | 'upstream';
+
+/**
+ * Problems found in a model response when checking it against the request
+ */
+export type ItemIssueReason =
+  | 'malformed' // the response was not a JSON list of items
+  | 'invalid' // an item without a numeric index and a text
+  | 'unknown_index' // an index that was not requested
+  | 'missing'
+  | 'duplicate'
+  | 'empty'
+  | 'merged'; // the text of a missing neighbour was folded into the line
+
+export interface ItemIssue {
+  index?: number;
+  reason: ItemIssueReason;
+}
+
+/**
+ * Returned with every optimize/translate batch
+ */
+export interface OutputDiagnostics {
+  // Requested lines still without a usable result after every attempt
+  failed: number[];
+  // Every problem found, including the ones a second request fixed
+  issues: ItemIssue[];
+  // Model requests made for the batch
+  requests: number;
+}
+
+/**
+ * Provider selection sent with every AI request. Defaults to Gemini with its
+ * default model, so older clients that only send `apiKey` keep working.
+ */
+export interface LLMRequestOptions {
+  apiKey?: string;
+  provider?: LLMProviderName;
+  model?: string;
+  baseUrl?: string; // OpenAI-compatible servers only
+}
+
+/**
+ * Glossary entry: a source term and the rendering it must have in the
+ * output. Entries without a target are kept as they are (names, brands).
+ */
+export interface GlossaryEntry {
+  source: string;
+  target?: string;
+}
+
+/**
+ * A line whose source contains a glossary term that the output misses
+ */
+export interface GlossaryViolation {
+  index: number;
+  source: string;
+  expected: string;
+}
+
+/**
+ * What the model is shown around an optimize batch. The lines are read-only,
+ * only the batch itself is edited.
+ */
+export interface OptimizeContext {
+  // Lines just before and after the batch, already optimized when known
+  before?: SubtitleItem[];
+  after?: SubtitleItem[];
+  // Topic, characters and register, as returned by an earlier batch
+  summary?: string;
+}
+
+export interface GeminiOptimizeRequest extends LLMRequestOptions {
   subtitles: SubtitleItem[];
+  glossary?: GlossaryEntry[];
+  context?: OptimizeContext;
 }
 
 export interface GeminiOptimizeResponse {
   success: boolean;
   optimized?: SubtitleItem[];
+  // Summary updated with this batch, sent with the next ones
+  summary?: string;
+  diagnostics?: OutputDiagnostics;
   error?: string;
+  errorCode?: LLMErrorCode;
 }
 
 export interface BatchInfo {
@@ -23,3 +113,19 @@ export interface BatchInfo {
   totalBatches: number;
   subtitles: SubtitleItem[];
 }
+
+export interface GeminiTranslateRequest extends LLMRequestOptions {
+  subtitles: SubtitleItem[];
+  sourceLanguage: string;
+  targetLanguage: string;
+  glossary?: GlossaryEntry[];
+}
+
+export interface GeminiTranslateResponse {
+  success: boolean;
+  translations?: Record<number, string>;
+  missing?: number[];
+  diagnostics?: OutputDiagnostics;
+  error?: string;
+  errorCode?: LLMErrorCode;
+}
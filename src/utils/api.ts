@@ -0,0 +1,280 @@
+import type {
+  GlossaryEntry,
+  LLMErrorCode,
+  LLMProviderName,
+  LLMRequestOptions,
+} from '../types/gemini';
+import { formatOf } from './batch';
+import type { ExportOptions, ExportedFile } from './export';
+import { contentDisposition, exportSubtitles, validateExportOptions } from './export';
+import type { SubtitleInput, SupportedFormat } from './formats';
+import { isSupportedFormat } from './formats';
+import { parseGlossary } from './glossary';
+import { LLMError, LLM_ERROR_STATUS } from './llm/errors';
+import type { ParsedSubtitleFile, SubtitleCaption } from './subtitle';
+import { parseSubtitleDocument, validateSubtitleFile } from './subtitle';
+import { validateParseOptions } from './validation';
+
+/**
+ * The error envelope of the API routes, and reading and answering the
+ * multipart requests of /api/v1. The contract is described in utils/openapi.
+ */
+
+export const API_ERROR_CODES = [
+  ...(Object.keys(LLM_ERROR_STATUS) as LLMErrorCode[]),
+  'unsupported_media_type',
+  'unreadable_file', // the uploaded file could not be parsed
+  'conversion_failed', // the captions can't be written in the requested format
+  'unavailable', // the rate limit couldn't be checked, try again later
+  'internal',
+] as const;
+
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number];
+
+// Body of every error response
+export interface ApiErrorBody {
+  success: false;
+  error: string;
+  errorCode: ApiErrorCode;
+}
+
+// A request that can't be served, answered with `status` by errorResponseOf
+export class ApiError extends Error {
+  status: number;
+  code: ApiErrorCode;
+
+  constructor(status: number, code: ApiErrorCode, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export function errorResponse(
+  status: number,
+  errorCode: ApiErrorCode,
+  error: string,
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(
+    JSON.stringify({ success: false, error, errorCode } satisfies ApiErrorBody),
+    {
+      status,
+      headers: { 'Content-Type': 'application/json', ...headers },
+    }
+  );
+}
+
+/**
+ * The response to a request that threw. Messages of model and unexpected
+ * errors start with `action`, e.g. "Failed to translate subtitles".
+ */
+export function errorResponseOf(error: unknown, action: string): Response {
+  if (error instanceof ApiError) {
+    return errorResponse(error.status, error.code, error.message);
+  }
+
+  if (error instanceof LLMError) {
+    return errorResponse(
+      error.status,
+      error.code,
+      error.code === 'auth'
+        ? 'Invalid API key. Please check your API key and try again.'
+        : `${action}: ${error.message}`,
+      // Passed on so the client waits as long as the provider asked
+      error.retryAfter !== undefined ? { 'Retry-After': String(error.retryAfter) } : {}
+    );
+  }
+
+  return errorResponse(
+    500,
+    'internal',
+    `${action}: ${error instanceof Error ? error.message : 'Unknown error'}`
+  );
+}
+
+// Form fields are strings, empty ones count as missing
+export const formField = (form: FormData, name: string): string | undefined => {
+  const value = form.get(name);
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+const numberField = (form: FormData, name: string): number | undefined => {
+  const value = formField(form, name);
+  return value === undefined ? undefined : Number(value);
+};
+
+// Lines of one file /api/v1 translates or optimizes, 100 model requests
+export const MAX_LINES_PER_FILE = 5000;
+
+export interface SubtitleUpload extends ParsedSubtitleFile {
+  filename: string;
+  // The other fields of the request
+  form: FormData;
+}
+
+/**
+ * Read the `file` of a multipart /api/v1 request with the options it is
+ * read with: `from` (detected by default), `fps` and `encoding`. Throws an
+ * ApiError when it can't be read.
+ */
+export async function readSubtitleUpload(request: Request): Promise<SubtitleUpload> {
+  if (!request.headers.get('content-type')?.includes('multipart/form-data')) {
+    throw new ApiError(
+      415,
+      'unsupported_media_type',
+      'Invalid content type. Must be multipart/form-data'
+    );
+  }
+
+  const form = await request.formData();
+  const file = form.get('file');
+  if (!(file instanceof File)) {
+    throw new ApiError(400, 'invalid_request', 'No file provided');
+  }
+
+  const validation = validateSubtitleFile(file);
+  if (!validation.isValid) {
+    throw new ApiError(400, 'invalid_request', validation.error!);
+  }
+
+  const fps = numberField(form, 'fps');
+  const encoding = formField(form, 'encoding');
+  const format = formField(form, 'from');
+  const optionsError = validateParseOptions({ fps, encoding, format });
+  if (optionsError) {
+    throw new ApiError(400, 'invalid_request', optionsError);
+  }
+
+  try {
+    const parsed = await parseSubtitleDocument(file, {
+      fps,
+      encoding,
+      format: format as SupportedFormat | undefined,
+    });
+    return { ...parsed, filename: file.name, form };
+  } catch (error) {
+    throw new ApiError(
+      422,
+      'unreadable_file',
+      error instanceof Error ? error.message : 'Error processing subtitle file'
+    );
+  }
+}
+
+export interface OutputOptions {
+  format: SupportedFormat;
+  options: ExportOptions;
+  // Content-Disposition of the response
+  disposition: string;
+}
+
+/**
+ * The output of a /api/v1 request: `to`, the format of the upload by
+ * default, and the download options `bilingual`, `outputEncoding`,
+ * `lineEnding`, `fps` and `removeSDH`. Throws an ApiError when they are
+ * invalid.
+ */
+export function readOutputOptions(upload: SubtitleUpload): OutputOptions {
+  const { form } = upload;
+  const format = formField(form, 'to') ?? formatOf(upload.filename);
+  if (!isSupportedFormat(format)) {
+    throw new ApiError(400, 'invalid_request', 'Unsupported subtitle format');
+  }
+
+  const bilingual = formField(form, 'bilingual');
+  const options = {
+    document: upload.document,
+    fps: numberField(form, 'fps'),
+    bilingual: bilingual ? { order: bilingual } : undefined,
+    encoding: formField(form, 'outputEncoding'),
+    lineEnding: formField(form, 'lineEnding'),
+    // Comma separated, e.g. "sounds,speakers"
+    removeSDH: formField(form, 'removeSDH')?.split(',').map((element) => element.trim()),
+  };
+  const optionsError = validateExportOptions(options);
+  if (optionsError) {
+    throw new ApiError(400, 'invalid_request', optionsError);
+  }
+  // Built now, so a bad name fails before any model is paid for
+  return {
+    format,
+    options: options as ExportOptions,
+    disposition: contentDisposition(upload.filename, format),
+  };
+}
+
+/**
+ * Provider settings of a /api/v1 request. The key is taken from an
+ * `Authorization: Bearer` header, or else from the `apiKey` field.
+ */
+export function readLLMOptions(request: Request, form: FormData): LLMRequestOptions {
+  const bearer = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  return {
+    apiKey: bearer?.trim() || formField(form, 'apiKey'),
+    provider: formField(form, 'provider') as LLMProviderName | undefined,
+    model: formField(form, 'model'),
+    baseUrl: formField(form, 'baseUrl'),
+  };
+}
+
+// The OpenAI-compatible servers requests may use, from the Worker settings
+export const allowedBaseUrls = (locals: App.Locals): string[] =>
+  (locals.runtime?.env?.LLM_BASE_URLS ?? '')
+    .split(',')
+    .map((url) => url.trim())
+    .filter(Boolean);
+
+// The `glossary` field, in the text form of the translate page
+export const readGlossary = (form: FormData): GlossaryEntry[] =>
+  parseGlossary(formField(form, 'glossary') ?? '');
+
+/**
+ * Captions as written to the output, with new texts by index. Lines
+ * without one keep the original text, which bilingual files also show.
+ */
+export const toSubtitleInputs = (
+  captions: SubtitleCaption[],
+  texts: Record<number, string> = {}
+): SubtitleInput[] =>
+  captions.map((caption) => ({
+    start: caption.start,
+    end: caption.end,
+    content: texts[caption.index] ?? caption.content,
+    ass: caption.ass,
+    original: caption.content,
+  }));
+
+/**
+ * Answer with the built file, with the headers of /api/download plus
+ * `headers`. Throws an ApiError when the file can't be built.
+ */
+export function fileResponse(
+  subtitles: SubtitleInput[],
+  { format, options, disposition }: OutputOptions,
+  headers: Record<string, string> = {}
+): Response {
+  let file: ExportedFile;
+  try {
+    file = exportSubtitles(subtitles, format, options);
+  } catch (buildError) {
+    console.error('Error building subtitles:', buildError);
+    throw new ApiError(
+      422,
+      'conversion_failed',
+      'Failed to convert subtitles to the requested format'
+    );
+  }
+
+  return new Response(new Blob([file.bytes], { type: file.contentType }), {
+    headers: {
+      'Content-Type': file.contentType,
+      'Content-Disposition': disposition,
+      'Cache-Control': 'no-store',
+      // Characters the encoding can't represent were written as "?"
+      'X-Unmappable-Characters': file.unmappable.toString(),
+      ...headers,
+    },
+  });
+}
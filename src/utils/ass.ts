@@ -0,0 +1,377 @@
+/**
+ * SubStation Alpha (.ssa) / Advanced SubStation Alpha (.ass) documents.
+ *
+ * subsrt-ts splits dialogue lines on every comma, drops the first character
+ * of the text field and rebuilds files with a fixed header, so documents are
+ * parsed and written here instead. Everything except the dialogue text is
+ * kept as it was in the uploaded file.
+ */
+
+import { AN_TO_SSA } from './markup';
+
+export type ASSFormat = 'ass' | 'ssa';
+
+// Event fields keyed by the [Events] Format line (Layer, Style, Name, ...),
+// without Start, End and Text
+export type ASSEventFields = Record<string, string>;
+
+export interface ASSEvent {
+  start: number;
+  end: number;
+  fields: ASSEventFields;
+  text: string;
+}
+
+export interface ASSSection {
+  name: string;
+  lines: string[];
+}
+
+/**
+ * Everything in the file except the dialogue events: [Script Info],
+ * [V4+ Styles], fonts, graphics, and comment lines from [Events].
+ */
+export interface ASSDocument {
+  format: ASSFormat;
+  // Raw lines of every section but [Events], in file order
+  sections: ASSSection[];
+  eventFormat: string[];
+  // Comment events, re-inserted after the dialogue at `after` (0 = first)
+  comments: { after: number; line: string }[];
+}
+
+export interface ParsedASS {
+  document: ASSDocument;
+  events: ASSEvent[];
+}
+
+const EVENT_FORMATS: Record<ASSFormat, string[]> = {
+  ass: ['Layer', 'Start', 'End', 'Style', 'Name', 'MarginL', 'MarginR', 'MarginV', 'Effect', 'Text'],
+  ssa: ['Marked', 'Start', 'End', 'Style', 'Name', 'MarginL', 'MarginR', 'MarginV', 'Effect', 'Text'],
+};
+
+const EVENT_DEFAULTS: ASSEventFields = {
+  Layer: '0',
+  Marked: 'Marked=0',
+  Style: 'Default',
+  Name: '',
+  MarginL: '0',
+  MarginR: '0',
+  MarginV: '0',
+  Effect: '',
+};
+
+const STYLES_SECTION: Record<ASSFormat, string> = {
+  ass: 'V4+ Styles',
+  ssa: 'V4 Styles',
+};
+
+// h:mm:ss.cc to milliseconds
+export function parseASSTime(value: string): number {
+  const match = value.trim().match(/^(\d+):(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match) {
+    throw new Error(`Invalid time format: ${value}`);
+  }
+  const [, hours, minutes, seconds, fraction = '0'] = match;
+  return (
+    (Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds)) * 1000 +
+    Number(fraction.padEnd(2, '0').slice(0, 2)) * 10
+  );
+}
+
+// Milliseconds to h:mm:ss.cc
+export function formatASSTime(ms: number): string {
+  const pad = (n: number): string => n.toString().padStart(2, '0');
+  const centiseconds = Math.round(Math.max(0, ms) / 10);
+  const hours = Math.floor(centiseconds / 360000);
+  const minutes = Math.floor((centiseconds % 360000) / 6000);
+  const seconds = Math.floor((centiseconds % 6000) / 100);
+  return `${hours}:${pad(minutes)}:${pad(seconds)}.${pad(centiseconds % 100)}`;
+}
+
+// Split a Dialogue/Style value, the last column keeps any commas it contains
+function splitColumns(value: string, count: number): string[] {
+  const values = value.split(',');
+  return [
+    ...values.slice(0, count - 1),
+    values.slice(count - 1).join(','),
+  ];
+}
+
+export function parseASS(content: string): ParsedASS {
+  const events: ASSEvent[] = [];
+  const sections: ASSSection[] = [];
+  const comments: ASSDocument['comments'] = [];
+  let format: ASSFormat = 'ssa';
+  let current: ASSSection | null = null;
+  let inEvents = false;
+  let eventFormat: string[] = [];
+
+  for (const line of content.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const sectionMatch = line.match(/^\s*\[([^\]]+)\]\s*$/);
+    if (sectionMatch) {
+      const name = sectionMatch[1].trim();
+      inEvents = name.toLowerCase() === 'events';
+      current = inEvents ? null : { name, lines: [] };
+      if (current) sections.push(current);
+      if (name === STYLES_SECTION.ass) format = 'ass';
+      continue;
+    }
+
+    if (current) {
+      current.lines.push(line);
+      continue;
+    }
+    if (!inEvents) continue;
+
+    const lineMatch = line.match(/^\s*([^:;]+):\s?(.*)$/);
+    if (!lineMatch) continue;
+    const [, name, value] = lineMatch;
+
+    if (name === 'Format') {
+      eventFormat = value.split(',').map((column) => column.trim());
+    } else if (name === 'Comment') {
+      comments.push({ after: events.length, line });
+    } else if (name === 'Dialogue' && eventFormat.length > 0) {
+      const values = splitColumns(value, eventFormat.length);
+      const event: ASSEvent = { start: 0, end: 0, fields: {}, text: '' };
+      eventFormat.forEach((column, i) => {
+        const columnValue = values[i] ?? '';
+        if (column === 'Text') {
+          event.text = columnValue;
+        } else if (column === 'Start') {
+          event.start = parseASSTime(columnValue);
+        } else if (column === 'End') {
+          event.end = parseASSTime(columnValue);
+        } else {
+          event.fields[column] = columnValue.trim();
+        }
+      });
+      events.push(event);
+    }
+  }
+
+  // Trailing blank lines are re-added by the writer between sections
+  for (const section of sections) {
+    while (section.lines.length > 0 && !section.lines[section.lines.length - 1].trim()) {
+      section.lines.pop();
+    }
+  }
+
+  return {
+    document: {
+      format,
+      sections,
+      eventFormat: eventFormat.length > 0 ? eventFormat : EVENT_FORMATS[format],
+      comments,
+    },
+    events,
+  };
+}
+
+// Header used when the captions did not come from an ASS/SSA file
+function defaultDocument(format: ASSFormat): ASSDocument {
+  const styles =
+    format === 'ass'
+      ? [
+          'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+          'Style: Default,Arial,20,&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,2,1,2,10,10,20,1',
+        ]
+      : [
+          'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, TertiaryColour, BackColour, Bold, Italic, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, AlphaLevel, Encoding',
+          'Style: Default,Arial,20,16777215,255,0,-2147483648,0,0,1,2,1,2,10,10,20,0,1',
+        ];
+
+  return {
+    format,
+    sections: [
+      {
+        name: 'Script Info',
+        lines: [
+          '; Script generated by subtitletranslatorai.com',
+          `ScriptType: v4.00${format === 'ass' ? '+' : ''}`,
+          'WrapStyle: 0',
+          'ScaledBorderAndShadow: yes',
+          'PlayResX: 384',
+          'PlayResY: 288',
+        ],
+      },
+      { name: STYLES_SECTION[format], lines: styles },
+    ],
+    eventFormat: EVENT_FORMATS[format],
+    comments: [],
+  };
+}
+
+export interface ASSStyleSpec {
+  name: string;
+  // Numpad position, 8 is top center and 2 bottom center
+  alignment: number;
+}
+
+/**
+ * Add styles to a document, copying the look of its first style. Names that
+ * are already taken get a number appended; the names used are returned.
+ */
+export function addASSStyles(
+  document: ASSDocument | undefined,
+  format: ASSFormat,
+  styles: ASSStyleSpec[]
+): { document: ASSDocument; names: string[] } {
+  const base = document && document.format === format ? document : defaultDocument(format);
+  const sectionIndex = base.sections.findIndex(
+    (section) => section.name === STYLES_SECTION[format]
+  );
+  const section = base.sections[sectionIndex];
+  const formatLine = section?.lines.find((line) => /^Format:/i.test(line));
+  const template = section?.lines.find((line) => /^Style:/i.test(line));
+
+  // Without a usable styles table there is nothing to copy from
+  if (!section || !formatLine || !template) {
+    return addASSStyles(defaultDocument(format), format, styles);
+  }
+
+  const columns = formatLine.replace(/^Format:\s*/i, '').split(',').map((column) => column.trim());
+  const templateValues = splitColumns(template.replace(/^Style:\s*/i, ''), columns.length);
+  const taken = new Set(
+    section.lines
+      .filter((line) => /^Style:/i.test(line))
+      .map((line) => line.replace(/^Style:\s*/i, '').split(',')[0].trim())
+  );
+
+  const names: string[] = [];
+  const lines = styles.map((style) => {
+    let name = style.name;
+    for (let n = 2; taken.has(name); n++) {
+      name = `${style.name} ${n}`;
+    }
+    taken.add(name);
+    names.push(name);
+
+    const values = columns.map((column, i) => {
+      if (column === 'Name') return name;
+      if (column === 'Alignment') {
+        return String(format === 'ssa' ? AN_TO_SSA[style.alignment] : style.alignment);
+      }
+      return templateValues[i] ?? '';
+    });
+    return `Style: ${values.join(',')}`;
+  });
+
+  const sections = [...base.sections];
+  sections[sectionIndex] = { ...section, lines: [...section.lines, ...lines] };
+  return { document: { ...base, sections }, names };
+}
+
+/**
+ * Accept a document sent back by the client, dropping anything malformed.
+ * Lines are flattened so a field can never smuggle in extra lines.
+ */
+export function normalizeASSDocument(value: unknown): ASSDocument | undefined {
+  const doc = value as Partial<ASSDocument> | null;
+  if (!doc || (doc.format !== 'ass' && doc.format !== 'ssa')) return undefined;
+  if (!Array.isArray(doc.sections) || !Array.isArray(doc.eventFormat)) {
+    return undefined;
+  }
+
+  const flatten = (line: unknown): string =>
+    String(line ?? '').replace(/[\r\n]+/g, ' ');
+
+  return {
+    format: doc.format,
+    sections: doc.sections
+      .filter((section) => section && typeof section.name === 'string')
+      .map((section) => ({
+        name: flatten(section.name).replace(/[[\]]/g, ''),
+        lines: Array.isArray(section.lines) ? section.lines.map(flatten) : [],
+      })),
+    eventFormat: doc.eventFormat.map((column) => flatten(column).trim()),
+    comments: Array.isArray(doc.comments)
+      ? doc.comments
+          .filter((comment) => comment && typeof comment.after === 'number')
+          .map((comment) => ({ after: comment.after, line: flatten(comment.line) }))
+      : [],
+  };
+}
+
+export interface ASSCaption {
+  start: number;
+  end: number;
+  // Dialogue text already converted to ASS override markup
+  text: string;
+  fields?: ASSEventFields;
+}
+
+/**
+ * An ASS/SSA file written in pieces: the header sections, the dialogue
+ * events a chunk at a time, then the comments that follow the last event.
+ */
+export interface ASSSerializer {
+  header: string;
+  // Events of the captions starting at position `offset` of the file
+  events(captions: ASSCaption[], offset: number): string;
+  footer: string;
+}
+
+/**
+ * Serializer of a file with `total` captions. With the document of the
+ * uploaded file, its header sections, styles and each event's fields are
+ * written back unchanged.
+ */
+export function createASSSerializer(
+  format: ASSFormat,
+  document: ASSDocument | undefined,
+  total: number,
+  eol = '\r\n'
+): ASSSerializer {
+  // Styles differ between ASS and SSA, so a document only applies to its own format
+  const doc = document && document.format === format ? document : defaultDocument(format);
+  const eventFormat = doc.eventFormat.includes('Text')
+    ? doc.eventFormat
+    : EVENT_FORMATS[format];
+
+  let header = '';
+  for (const section of doc.sections) {
+    header += `[${section.name}]${eol}`;
+    header += section.lines.map((line) => line + eol).join('');
+    header += eol;
+  }
+
+  header += `[Events]${eol}`;
+  header += `Format: ${eventFormat.join(', ')}${eol}`;
+
+  const commentsAt = (position: number) =>
+    doc.comments
+      .filter((comment) => comment.after === position)
+      .map((comment) => comment.line + eol)
+      .join('');
+
+  const events = (captions: ASSCaption[], offset: number) =>
+    captions
+      .map((caption, i) => {
+        const values = eventFormat.map((column) => {
+          switch (column) {
+            case 'Start':
+              return formatASSTime(caption.start);
+            case 'End':
+              return formatASSTime(caption.end);
+            case 'Text':
+              return caption.text.replace(/\r?\n/g, '\\N');
+            default:
+              // A comma or line break would shift the remaining columns
+              return (caption.fields?.[column] ?? EVENT_DEFAULTS[column] ?? '')
+                .replace(/[\r\n]+/g, ' ')
+                .replace(/,/g, ';');
+          }
+        });
+        return commentsAt(offset + i) + `Dialogue: ${values.join(',')}${eol}`;
+      })
+      .join('');
+
+  const footer = doc.comments
+    .filter((comment) => comment.after >= total)
+    .map((comment) => comment.line + eol)
+    .join('');
+
+  return { header, events, footer };
+}
@@ -0,0 +1,192 @@
+import type { GlossaryEntry, LLMRequestOptions } from '../types/gemini';
+import type { SubtitleCaption } from './subtitle';
+import type { ASSDocument } from './ass';
+import type { DetectedEncoding } from './encoding';
+import type { SubtitleInput, SupportedFormat } from './formats';
+import { isSupportedFormat } from './formats';
+import type { MemoryIndex } from './memory';
+import { findMatch } from './memory';
+
+/**
+ * Batch translation of many files, e.g. a whole season, with the same
+ * settings. Runs in the browser through the same API routes as the
+ * translate page, one file after the other.
+ */
+
+export type BatchStatus = 'queued' | 'translating' | 'optimizing' | 'done' | 'failed';
+
+export interface BatchFile {
+  id: number;
+  filename: string;
+  captions: SubtitleCaption[];
+  document?: ASSDocument;
+  encoding?: DetectedEncoding;
+  // Translated text by caption index
+  translations: Record<number, string>;
+  status: BatchStatus;
+  // Share of the current step that is done, 0 to 1
+  progress: number;
+  error?: string;
+  // Lines the model returned nothing for, exported untranslated
+  missing: number[];
+  // Lines taken from the translation memory, neither translated nor optimized
+  remembered: number[];
+}
+
+export interface BatchSettings {
+  llm: LLMRequestOptions;
+  sourceLanguage: string;
+  targetLanguage: string;
+  optimize: boolean;
+  glossary: GlossaryEntry[];
+  // Translation memory of the language pair, only exact matches are used
+  memory?: MemoryIndex;
+}
+
+// Keep in sync with MAX_SUBTITLES_PER_REQUEST in utils/llm/tasks
+const BATCH_SIZE = 50;
+
+export const ACCEPTED_EXTENSIONS = ['.srt', '.vtt', '.sub', '.sbv', '.lrc', '.smi', '.ssa', '.ass', '.json'];
+
+export const isSubtitleFilename = (name: string): boolean =>
+  ACCEPTED_EXTENSIONS.includes('.' + name.split('.').pop()?.toLowerCase());
+
+// Format of the uploaded file, used when the output keeps it
+export function formatOf(filename: string): SupportedFormat {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  return isSupportedFormat(extension) ? extension : 'srt';
+}
+
+async function postJSON(url: string, body: unknown): Promise<any> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `Request failed with status ${response.status}`);
+  }
+  return result;
+}
+
+/**
+ * Parse files on the server, all in one request. Files that can't be read
+ * come back failed instead of failing the whole upload.
+ */
+export async function uploadFiles(files: File[], encoding?: string): Promise<BatchFile[]> {
+  const formData = new FormData();
+  files.forEach((file) => formData.append('files', file));
+  if (encoding) {
+    formData.append('encoding', encoding);
+  }
+
+  const response = await fetch('/api/upload', { method: 'POST', body: formData });
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Upload failed');
+  }
+
+  return result.files.map((file: any, id: number): BatchFile => ({
+    id,
+    filename: file.filename,
+    captions: file.success ? file.data : [],
+    document: file.document,
+    encoding: file.encoding,
+    translations: {},
+    status: file.success ? 'queued' : 'failed',
+    progress: 0,
+    error: file.success ? undefined : file.error,
+    missing: [],
+    remembered: [],
+  }));
+}
+
+/**
+ * Translate a file and optionally run AI optimization over the result.
+ * `onUpdate` is called whenever its status or progress changes.
+ */
+export async function processFile(
+  file: BatchFile,
+  settings: BatchSettings,
+  onUpdate: () => void
+): Promise<void> {
+  file.status = 'translating';
+  file.progress = 0;
+  file.missing = [];
+  file.remembered = [];
+
+  // Nobody reviews batch output line by line, so fuzzy matches are not trusted
+  const lines = file.captions.filter((caption) => {
+    if (!caption.content?.trim()) return false;
+    const match = settings.memory && findMatch(settings.memory, caption.content, 100);
+    if (!match) return true;
+    file.translations[caption.index] = match.entry.target;
+    file.remembered.push(caption.index);
+    return false;
+  });
+  onUpdate();
+
+  for (let i = 0; i < lines.length; i += BATCH_SIZE) {
+    const batch = lines
+      .slice(i, i + BATCH_SIZE)
+      .map(({ index, content }) => ({ index, content }));
+    const result = await postJSON('/api/translate', {
+      ...settings.llm,
+      subtitles: batch,
+      sourceLanguage: settings.sourceLanguage,
+      targetLanguage: settings.targetLanguage,
+      glossary: settings.glossary,
+    });
+    Object.assign(file.translations, result.translations);
+    file.missing.push(...(result.missing || []));
+    file.progress = Math.min(i + BATCH_SIZE, lines.length) / lines.length;
+    onUpdate();
+  }
+
+  if (settings.optimize) {
+    file.status = 'optimizing';
+    file.progress = 0;
+    onUpdate();
+
+    const translated = lines.filter((line) => file.translations[line.index]);
+    for (let i = 0; i < translated.length; i += BATCH_SIZE) {
+      const batch = translated
+        .slice(i, i + BATCH_SIZE)
+        .map(({ index }) => ({ index, content: file.translations[index] }));
+      const result = await postJSON('/api/aioptimize', {
+        ...settings.llm,
+        subtitles: batch,
+        glossary: settings.glossary,
+      });
+      for (const item of result.optimized as { index: number; content: string }[]) {
+        file.translations[item.index] = item.content;
+      }
+      file.progress = Math.min(i + BATCH_SIZE, translated.length) / translated.length;
+      onUpdate();
+    }
+  }
+
+  file.status = 'done';
+  onUpdate();
+}
+
+// A translated file as sent to /api/download-zip
+export function toDownloadFile(
+  file: BatchFile,
+  format?: SupportedFormat
+): { filename: string; format: SupportedFormat; subtitles: SubtitleInput[]; document?: ASSDocument } {
+  return {
+    filename: file.filename,
+    format: format ?? formatOf(file.filename),
+    document: file.document,
+    subtitles: file.captions.map((caption) => ({
+      start: caption.start,
+      end: caption.end,
+      // Lines without a translation keep the original text
+      content: file.translations[caption.index] ?? caption.content,
+      ass: caption.ass,
+      original: caption.content,
+    })),
+  };
+}
@@ -0,0 +1,283 @@
+import type { ASSEventFields } from './ass';
+import { recordStructureChange, applyTextChanges } from './history';
+import { splitMarkup, stripMarkup } from './markup';
+import type { SubtitleProject } from './project';
+import { notifySubtitlesChanged } from './project';
+import type { ReflowOptions } from './reflow';
+import { reflowText } from './reflow';
+import type { SubtitleCaption } from './subtitle';
+import { getLine, getLines, spliceLines } from './table';
+
+/**
+ * Structural edits of the subtitle table: splitting a cue at the cursor,
+ * merging, inserting and deleting cues. Every edit is a splice of the cue
+ * list, so it can be undone, and the lines are numbered 1 to n again
+ * after each one.
+ */
+
+// A row of the table: the source cue and its translation
+export interface TableCue {
+  start: number;
+  end: number;
+  // Source text in canonical markup
+  content: string;
+  translation: string;
+  ass?: ASSEventFields;
+}
+
+// At `position` (0-based), `removed` cues were replaced by `added` ones
+export interface CueSplice {
+  position: number;
+  removed: TableCue[];
+  added: TableCue[];
+}
+
+// Length of an inserted cue when the gap allows it
+export const DEFAULT_CUE_DURATION = 2000;
+
+// Each part of a split cue lasts at least this long
+export const MIN_SPLIT_DURATION = 100;
+
+// Positions where the raw text has whitespace outside of tags
+function breakPositions(content: string): number[] {
+  const positions: number[] = [];
+  const masked = content.replace(/<[^<>]*>|\{[^{}]*\}/g, (tag) => '\0'.repeat(tag.length));
+  for (const match of masked.matchAll(/\s+/g)) positions.push(match.index);
+  return positions;
+}
+
+// Split a text at the whitespace closest to a share of its visible length
+function splitAtShare(content: string, share: number): [string, string] {
+  const length = stripMarkup(content).length;
+  let best: number | undefined;
+  let bestDistance = Infinity;
+  for (const position of breakPositions(content)) {
+    const distance = Math.abs(stripMarkup(content.slice(0, position)).length - share * length);
+    if (distance < bestDistance) {
+      best = position;
+      bestDistance = distance;
+    }
+  }
+  if (best === undefined) return [content, ''];
+  const [first, second] = splitMarkup(content, best);
+  return [first.trim(), second.trim()];
+}
+
+/**
+ * Split a cue at a position of its translation. The time is divided in
+ * proportion to the text on each side, and the source text at the word
+ * closest to the same share. Returns null when either part would be empty
+ * or too short.
+ */
+export function splitCue(cue: TableCue, at: number): [TableCue, TableCue] | null {
+  const [first, second] = splitMarkup(cue.translation, at).map((part) => part.trim());
+  const firstLength = stripMarkup(first).length;
+  const secondLength = stripMarkup(second).length;
+  if (firstLength === 0 || secondLength === 0) return null;
+
+  const share = firstLength / (firstLength + secondLength);
+  const middle = Math.round(cue.start + (cue.end - cue.start) * share);
+  if (middle - cue.start < MIN_SPLIT_DURATION || cue.end - middle < MIN_SPLIT_DURATION) return null;
+
+  const [firstSource, secondSource] = splitAtShare(cue.content, share);
+  return [
+    { ...cue, end: middle, content: firstSource, translation: first },
+    { ...cue, start: middle, content: secondSource, translation: second },
+  ];
+}
+
+/**
+ * One cue from consecutive cues: from the first start to the last end,
+ * texts on separate lines. Style and actor come from the first cue.
+ */
+export function mergeCues(cues: TableCue[]): TableCue {
+  const join = (texts: string[]) => texts.map((text) => text.trim()).filter(Boolean).join('\n');
+  return {
+    start: Math.min(...cues.map((cue) => cue.start)),
+    end: Math.max(...cues.map((cue) => cue.end)),
+    content: join(cues.map((cue) => cue.content)),
+    translation: join(cues.map((cue) => cue.translation)),
+    ass: cues[0].ass,
+  };
+}
+
+/**
+ * An empty cue after `previous`, in the gap before `next` when there is
+ * one. Without a gap it overlaps the next cue, which QC reports.
+ */
+export function createCueAfter(previous?: TableCue, next?: TableCue): TableCue {
+  const start = previous ? previous.end : 0;
+  const gapEnd = next && next.start > start ? next.start : start + DEFAULT_CUE_DURATION;
+  return {
+    start,
+    end: Math.min(start + DEFAULT_CUE_DURATION, gapEnd),
+    content: '',
+    translation: '',
+    ass: (previous ?? next)?.ass,
+  };
+}
+
+export const invertSplice = (splice: CueSplice): CueSplice => ({
+  position: splice.position,
+  removed: splice.added,
+  added: splice.removed,
+});
+
+// Apply splices in order
+export function applySplices(cues: TableCue[], splices: CueSplice[]): TableCue[] {
+  const result = [...cues];
+  for (const splice of splices) {
+    result.splice(splice.position, splice.removed.length, ...splice.added);
+  }
+  return result;
+}
+
+/**
+ * The number a line has after the splices, from 1, or undefined when the
+ * line was removed, e.g. split or merged.
+ */
+export function mapIndex(index: number, splices: CueSplice[]): number | undefined {
+  let current = index;
+  for (const { position, removed, added } of splices) {
+    if (current <= position) continue;
+    if (current <= position + removed.length) return undefined;
+    current += added.length - removed.length;
+  }
+  return current;
+}
+
+// The source side of the cues, numbered from 1 as a parsed file would be
+export function toCaptions(cues: TableCue[]): SubtitleCaption[] {
+  return cues.map((cue, i) => ({
+    type: 'caption',
+    index: i + 1,
+    start: cue.start,
+    end: cue.end,
+    duration: cue.end - cue.start,
+    content: cue.content,
+    text: stripMarkup(cue.content),
+    ass: cue.ass,
+  }));
+}
+
+// Browser-side helpers for the subtitle table
+
+export const readTableCues = (): TableCue[] =>
+  getLines().map(({ start, end, content, translation, ass }) => ({ start, end, content, translation, ass }));
+
+/**
+ * Apply splices to the table lines and announce the change with a
+ * `cues:change` event, so what is kept by line number can follow.
+ */
+function spliceTable(splices: CueSplice[], announce = true): void {
+  spliceLines(splices);
+  if (announce) {
+    document.dispatchEvent(
+      new CustomEvent('cues:change', { detail: { splices, captions: toCaptions(readTableCues()) } })
+    );
+  }
+  notifySubtitlesChanged();
+}
+
+// Apply splices as one undoable step
+function editCues(label: string, splices: CueSplice[]): void {
+  const inverse = [...splices].reverse().map(invertSplice);
+  spliceTable(splices);
+  recordStructureChange(label, (key) => spliceTable(key === 'before' ? inverse : splices));
+}
+
+/**
+ * Split a line at a position of its translation, e.g. the cursor. Throws
+ * with a message for the user when it can't be split there.
+ */
+export function splitLine(index: number, at: number): void {
+  const cue = readTableCues()[index - 1];
+  if (!cue) throw new Error(`There is no line ${index}`);
+  const parts = splitCue(cue, at);
+  if (!parts) {
+    throw new Error('Put the cursor between two words of the translation, both parts need text and time');
+  }
+  editCues(`Split line ${index}`, [{ position: index - 1, removed: [cue], added: parts }]);
+}
+
+// Merge consecutive lines into the first one
+export function mergeLines(indices: number[]): void {
+  const sorted = [...new Set(indices)].sort((a, b) => a - b);
+  const cues = readTableCues();
+  if (sorted.length < 2 || sorted[sorted.length - 1] > cues.length) {
+    throw new Error('Select at least two lines to merge');
+  }
+  if (sorted.some((index, i) => i > 0 && index !== sorted[i - 1] + 1)) {
+    throw new Error('Only consecutive lines can be merged');
+  }
+  const removed = cues.slice(sorted[0] - 1, sorted[sorted.length - 1]);
+  editCues(`Merge lines ${sorted[0]}-${sorted[sorted.length - 1]}`, [
+    { position: sorted[0] - 1, removed, added: [mergeCues(removed)] },
+  ]);
+}
+
+// Insert an empty line after a line, 0 inserts it first. Returns its number.
+export function insertLine(after: number): number {
+  const cues = readTableCues();
+  const position = Math.min(Math.max(0, after), cues.length);
+  editCues(`Insert line ${position + 1}`, [
+    { position, removed: [], added: [createCueAfter(cues[position - 1], cues[position])] },
+  ]);
+  return position + 1;
+}
+
+// Delete lines, at least one line has to remain
+export function deleteLines(indices: number[]): void {
+  const cues = readTableCues();
+  const sorted = [...new Set(indices)].filter((index) => cues[index - 1]).sort((a, b) => b - a);
+  if (sorted.length === 0) return;
+  if (sorted.length >= cues.length) throw new Error('At least one line has to remain');
+
+  // From the last line up, so earlier positions don't move
+  const splices: CueSplice[] = sorted.map((index) => ({
+    position: index - 1,
+    removed: [cues[index - 1]],
+    added: [],
+  }));
+  editCues(
+    sorted.length === 1 ? `Delete line ${sorted[0]}` : `Delete ${sorted.length} lines`,
+    splices
+  );
+}
+
+/**
+ * Break the translations of lines again within the line length and count,
+ * as one undoable step. Returns the number of lines changed.
+ */
+export function reflowLines(indices: number[], options: ReflowOptions): number {
+  const updates = indices.flatMap((index) => {
+    const translation = getLine(index)?.translation;
+    return translation?.trim() ? [{ index, content: reflowText(translation, options) }] : [];
+  });
+  const changes = applyTextChanges('Reflow', updates);
+  if (changes.length > 0) notifySubtitlesChanged();
+  return changes.length;
+}
+
+/**
+ * Rebuild the table from a saved project whose cues were split, merged,
+ * inserted or deleted, when the page was rendered from the uploaded file.
+ * Everything saved by line number already follows the project's lines, so
+ * this is not announced as a change.
+ */
+export function restoreProjectCues(project: SubtitleProject): void {
+  const cues = readTableCues();
+  const same =
+    cues.length === project.captions.length &&
+    cues.every((cue, i) => cue.content === project.captions[i].content);
+  if (same || project.captions.length === 0) return;
+
+  const restored: TableCue[] = project.captions.map((caption) => ({
+    start: project.times[caption.index]?.start ?? caption.start,
+    end: project.times[caption.index]?.end ?? caption.end,
+    content: caption.content,
+    translation: project.translations[caption.index] ?? '',
+    ass: caption.ass,
+  }));
+  spliceTable([{ position: 0, removed: cues, added: restored }], false);
+}
@@ -0,0 +1,74 @@
+/**
+ * Word-level differences between two versions of a line, for reviewing
+ * what the AI changed.
+ */
+
+export interface DiffPart {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+// Words, runs of whitespace and single punctuation marks, in any script
+const TOKEN_PATTERN = /[\p{L}\p{M}\p{N}_]+|\s+|[^\p{L}\p{M}\p{N}_\s]/gu;
+
+// Longer lines are compared as a whole, the table grows with the square
+const MAX_TOKENS = 2000;
+
+export const tokenize = (text: string): string[] => text.match(TOKEN_PATTERN) ?? [];
+
+/**
+ * The parts of `before` and `after`, in order: kept, removed and added
+ * words. Neighbouring parts of the same type are merged.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  if (a.length * b.length > MAX_TOKENS * MAX_TOKENS) {
+    return mergeParts([
+      { type: 'delete', text: before },
+      { type: 'insert', text: after },
+    ]);
+  }
+
+  // Longest common subsequence lengths of every pair of suffixes
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      parts.push({ type: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      parts.push({ type: 'delete', text: a[i++] });
+    } else {
+      parts.push({ type: 'insert', text: b[j++] });
+    }
+  }
+  while (i < a.length) parts.push({ type: 'delete', text: a[i++] });
+  while (j < b.length) parts.push({ type: 'insert', text: b[j++] });
+
+  return mergeParts(parts);
+}
+
+function mergeParts(parts: DiffPart[]): DiffPart[] {
+  const merged: DiffPart[] = [];
+  for (const part of parts) {
+    if (!part.text) continue;
+    const last = merged[merged.length - 1];
+    if (last?.type === part.type) {
+      last.text += part.text;
+    } else {
+      merged.push({ ...part });
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,208 @@
+import { applyTextChanges } from './history';
+import { isMemoryMatch } from './memory';
+import { hasSuggestion } from './review';
+import type { SearchQuery } from './search';
+import { countMatches, createSearchPattern, findInMarkup, replaceInCues } from './search';
+import { DEFAULT_SDH_ELEMENTS, detectSDH } from './sdh';
+import type { TableLine } from './table';
+import { getLine, getLines, getShownLines, revealLine, rowField, showLines } from './table';
+import { parseOffset } from './timing';
+import { WORKER_CUE_THRESHOLD, runWorkerTask, supportsWorkers } from './worker';
+
+/**
+ * Navigation in the subtitle table: filters, find and replace, jumping to a
+ * time and the translation progress, on the lines of utils/table.
+ */
+
+export const ROW_FILTERS = {
+  all: 'All lines',
+  untranslated: 'Untranslated',
+  edited: 'Edited by hand',
+  flagged: 'Flagged',
+  'ai-changed': 'Changed by AI',
+  review: 'AI suggestions to review',
+  memory: 'From translation memory',
+  sdh: 'With SDH annotations',
+} as const;
+
+export type RowFilter = keyof typeof ROW_FILTERS;
+
+// Which column find and replace works on, only translations can be replaced
+export type SearchScope = 'translated' | 'original';
+
+export const isRowFilter = (value: unknown): value is RowFilter =>
+  typeof value === 'string' && value in ROW_FILTERS;
+
+/**
+ * The cue shown at `ms`: the one playing then, otherwise the next one to
+ * start, or the last cue when `ms` is past the end.
+ */
+export function findCueAt<T extends { start: number; end: number }>(
+  cues: T[],
+  ms: number
+): T | undefined {
+  const sorted = [...cues].sort((a, b) => a.start - b.start);
+  return (
+    sorted.find((cue) => cue.start <= ms && ms < cue.end) ??
+    sorted.find((cue) => cue.start >= ms) ??
+    sorted[sorted.length - 1]
+  );
+}
+
+// Browser-side helpers for the subtitle table
+
+const isTranslated = (line: TableLine): boolean => Boolean(line.translation.trim());
+
+// QC issues, glossary misses and lines the translation left out
+const isFlagged = (line: TableLine): boolean =>
+  Boolean(line.issues?.length || line.glossary || line.missing);
+
+function matchesFilter(line: TableLine, index: number, filter: RowFilter): boolean {
+  switch (filter) {
+    case 'untranslated':
+      return !isTranslated(line);
+    case 'edited':
+      return Boolean(line.edited);
+    case 'flagged':
+      return isFlagged(line);
+    case 'ai-changed':
+      return Boolean(line.aiChanged);
+    case 'review':
+      return hasSuggestion(index);
+    case 'memory':
+      return isMemoryMatch(index);
+    case 'sdh':
+      // Lines in capitals alone are more often shouting than annotations
+      return [line.content, line.translation].some(
+        (text) => text && detectSDH(text).some((element) => DEFAULT_SDH_ELEMENTS.includes(element))
+      );
+    default:
+      return true;
+  }
+}
+
+/**
+ * List only the lines the filter lets through. Returns how many lines are
+ * shown.
+ */
+export function applyRowFilter(filter: RowFilter): number {
+  const shown = getLines().flatMap((line, i) => (matchesFilter(line, i + 1, filter) ? [i + 1] : []));
+  showLines(shown);
+  return shown.length;
+}
+
+export function getTranslationProgress(): { translated: number; total: number } {
+  const lines = getLines();
+  return {
+    translated: lines.filter(isTranslated).length,
+    total: lines.length,
+  };
+}
+
+/**
+ * Scroll to a line and put the cursor in its translation. Lines hidden by a
+ * filter are shown again, they would otherwise be unreachable.
+ */
+export function focusRow(index: number, selection?: { start: number; end: number }): void {
+  const row = revealLine(index);
+  const textArea = row && rowField<HTMLTextAreaElement>(row, 'trans');
+  if (textArea) {
+    textArea.focus({ preventScroll: true });
+    if (selection) textArea.setSelectionRange(selection.start, selection.end);
+  }
+}
+
+// The first untranslated line after `index`, wrapping around at the end
+export function nextUntranslated(index: number): number | undefined {
+  const lines = getLines();
+  const order = [...lines.keys()].map((i) => (index + i) % lines.length);
+  const next = order.find((i) => !isTranslated(lines[i]));
+  return next === undefined ? undefined : next + 1;
+}
+
+// The line at a timecode (00:01:02,500) or in seconds (62.5)
+export function findRowAt(value: string): number | undefined {
+  const ms = parseOffset(value);
+  if (ms === null || ms < 0) return undefined;
+
+  const cues = getLines().map((line, i) => ({ index: i + 1, start: line.start, end: line.end }));
+  return findCueAt(cues, ms)?.index;
+}
+
+export interface SearchMatch {
+  index: number;
+  // Character range in the translation, for the translated scope
+  start?: number;
+  end?: number;
+}
+
+// Text of a line as searched: the translation or the original markup
+const searchedText = (index: number, scope: SearchScope): string => {
+  const line = getLine(index);
+  return (scope === 'translated' ? line?.translation : line?.content) || '';
+};
+
+/**
+ * Every match of the query in the shown lines, in table order. Throws a
+ * SyntaxError for an invalid regular expression.
+ */
+export function findMatches(query: SearchQuery, scope: SearchScope): SearchMatch[] {
+  if (!query.text) return [];
+  const pattern = createSearchPattern(query);
+  const matches: SearchMatch[] = [];
+  for (const index of getShownLines()) {
+    for (const { start, end } of findInMarkup(searchedText(index, scope), pattern)) {
+      if (start === end) continue;
+      matches.push(scope === 'translated' ? { index, start, end } : { index });
+    }
+  }
+  return matches;
+}
+
+// How many shown lines contain the query, for the summary
+export const countMatchingRows = (matches: SearchMatch[]): number =>
+  new Set(matches.map((match) => match.index)).size;
+
+/**
+ * Replace every match in the shown translations. Long tables are
+ * processed by the subtitle worker. Returns the number of replacements.
+ */
+export async function replaceAllInTable(query: SearchQuery, replacement: string): Promise<number> {
+  const cues = getShownLines().map((index) => ({ index, content: searchedText(index, 'translated') }));
+
+  const changes =
+    cues.length > WORKER_CUE_THRESHOLD && supportsWorkers()
+      ? await runWorkerTask({ type: 'replace', cues, query, replacement })
+      : replaceInCues(cues, query, replacement);
+
+  for (const change of applyTextChanges('Replace all', changes)) {
+    const line = getLine(change.index);
+    if (line) line.edited = true;
+  }
+  return changes.reduce((total, change) => total + change.count, 0);
+}
+
+/**
+ * Replace the match the cursor is on, if it still is one. Returns whether
+ * something was replaced.
+ */
+export function replaceMatch(match: SearchMatch, query: SearchQuery, replacement: string): boolean {
+  const line = getLine(match.index);
+  if (!line || match.start === undefined || match.end === undefined) return false;
+
+  const found = line.translation.slice(match.start, match.end);
+  const pattern = createSearchPattern(query);
+  if (countMatches(found, pattern) === 0) return false;
+
+  // Same rules as replace all, "$1" only expands for regular expressions
+  const [changed] = replaceInCues([{ index: match.index, content: found }], query, replacement);
+  const replaced = changed ? changed.content : found;
+  applyTextChanges('Replace', [
+    {
+      index: match.index,
+      content: line.translation.slice(0, match.start) + replaced + line.translation.slice(match.end),
+    },
+  ]);
+  line.edited = true;
+  return true;
+}
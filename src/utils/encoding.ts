@@ -0,0 +1,357 @@
+/**
+ * Character encodings of subtitle files. Older subtitles are rarely UTF-8,
+ * so uploads are sniffed (BOM, then a scoring heuristic over the legacy
+ * encodings) and downloads can be written back in a legacy encoding.
+ */
+
+type Script = 'latin' | 'cyrillic' | 'greek' | 'hebrew' | 'arabic' | 'japanese' | 'chinese' | 'korean' | 'thai';
+
+// Encodings accepted on upload, with the script their text is written in
+export const INPUT_ENCODINGS: Record<string, { label: string; script?: Script }> = {
+  'utf-8': { label: 'UTF-8' },
+  'utf-16le': { label: 'UTF-16 LE' },
+  'utf-16be': { label: 'UTF-16 BE' },
+  'windows-1252': { label: 'Western (Windows-1252)', script: 'latin' },
+  'iso-8859-15': { label: 'Western (ISO-8859-15)', script: 'latin' },
+  'windows-1250': { label: 'Central European (Windows-1250)', script: 'latin' },
+  'iso-8859-2': { label: 'Central European (ISO-8859-2)', script: 'latin' },
+  'windows-1254': { label: 'Turkish (Windows-1254)', script: 'latin' },
+  'windows-1257': { label: 'Baltic (Windows-1257)', script: 'latin' },
+  'windows-1251': { label: 'Cyrillic (Windows-1251)', script: 'cyrillic' },
+  'koi8-r': { label: 'Cyrillic (KOI8-R)', script: 'cyrillic' },
+  'windows-1253': { label: 'Greek (Windows-1253)', script: 'greek' },
+  'windows-1255': { label: 'Hebrew (Windows-1255)', script: 'hebrew' },
+  'windows-1256': { label: 'Arabic (Windows-1256)', script: 'arabic' },
+  'windows-874': { label: 'Thai (Windows-874)', script: 'thai' },
+  shift_jis: { label: 'Japanese (Shift-JIS)', script: 'japanese' },
+  'euc-jp': { label: 'Japanese (EUC-JP)', script: 'japanese' },
+  gb18030: { label: 'Chinese Simplified (GB18030)', script: 'chinese' },
+  big5: { label: 'Chinese Traditional (Big5)', script: 'chinese' },
+  'euc-kr': { label: 'Korean (EUC-KR)', script: 'korean' },
+};
+
+// Encodings downloads can be written in. Legacy multi-byte encodings are not
+// offered, there is no encoder for them in the platform.
+export const OUTPUT_ENCODINGS = {
+  'utf-8-bom': 'UTF-8 with BOM',
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'windows-1252': 'Western (Windows-1252)',
+  'iso-8859-15': 'Western (ISO-8859-15)',
+  'windows-1250': 'Central European (Windows-1250)',
+  'iso-8859-2': 'Central European (ISO-8859-2)',
+  'windows-1251': 'Cyrillic (Windows-1251)',
+  'windows-1253': 'Greek (Windows-1253)',
+  'windows-1254': 'Turkish (Windows-1254)',
+} as const;
+
+export type OutputEncoding = keyof typeof OUTPUT_ENCODINGS;
+
+export const LINE_ENDINGS = { crlf: '\r\n', lf: '\n' } as const;
+export type LineEnding = keyof typeof LINE_ENDINGS;
+
+export interface DetectedEncoding {
+  encoding: string;
+  source: 'bom' | 'heuristic' | 'manual';
+  // 0 to 1, how sure the heuristic is
+  confidence: number;
+}
+
+export function isInputEncoding(value: unknown): value is string {
+  return typeof value === 'string' && value in INPUT_ENCODINGS;
+}
+
+export function isOutputEncoding(value: unknown): value is OutputEncoding {
+  return typeof value === 'string' && value in OUTPUT_ENCODINGS;
+}
+
+export function isLineEnding(value: unknown): value is LineEnding {
+  return typeof value === 'string' && value in LINE_ENDINGS;
+}
+
+export const getEncodingLabel = (encoding: string): string =>
+  INPUT_ENCODINGS[encoding]?.label ?? encoding;
+
+function sniffBOM(bytes: Uint8Array): string | undefined {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  return undefined;
+}
+
+// UTF-16 without BOM shows up as ASCII with a zero byte next to every char
+function sniffUTF16(bytes: Uint8Array): string | undefined {
+  const sample = bytes.subarray(0, 4096 - (Math.min(bytes.length, 4096) % 2));
+  let even = 0;
+  let odd = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) even++;
+      else odd++;
+    }
+  }
+  const half = sample.length / 2;
+  if (half === 0) return undefined;
+  if (odd / half > 0.3 && even / half < 0.05) return 'utf-16le';
+  if (even / half > 0.3 && odd / half < 0.05) return 'utf-16be';
+  return undefined;
+}
+
+const SCRIPT_PATTERNS: Record<Script, RegExp> = {
+  latin: /\p{Script=Latin}/u,
+  cyrillic: /\p{Script=Cyrillic}/u,
+  greek: /\p{Script=Greek}/u,
+  hebrew: /\p{Script=Hebrew}/u,
+  arabic: /\p{Script=Arabic}/u,
+  japanese: /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー]/u,
+  chinese: /\p{Script=Han}/u,
+  korean: /[\p{Script=Hangul}\p{Script=Han}]/u,
+  thai: /\p{Script=Thai}/u,
+};
+
+const isASCIILetter = (char: string | undefined): boolean =>
+  char !== undefined && /^[A-Za-z]$/.test(char);
+
+// Decoding CJK text with the wrong CJK encoding still gives valid but rare
+// characters, so common ones (and kana for Japanese) earn a bonus
+const COMMON_CJK: Partial<Record<Script, RegExp>> = {
+  japanese: /[\p{Script=Hiragana}\p{Script=Katakana}]/u,
+  chinese: /[的一是不了在人有我他这個个们們中来來上大为為和国國地到以说說时時要就出会會可也你对對生能而子那得于於着著下自之年过過发發后後作里裡用道行所然家种種事成方多经經么麼去法学學如都同现現当當没沒动動面起看定天分还還进進好小部其些主样樣理心她本前开開但因只从從想实實今气氣很吗嗎呢吧谢謝]/u,
+  korean: /[이다는의에가을를하고지서한기그도로사나게어수요있것니했리내들여주습세안녕잘해요네아무시우리정말왜뭐]/u,
+};
+
+const CJK_PUNCTUATION = /[\u3000-\u303f\uff01-\uff60]/u;
+// Half-width katakana, what single high bytes turn into in Shift-JIS
+const HALFWIDTH_KANA = /[\uff61-\uff9f]/u;
+const CASED_SCRIPTS: Script[] = ['latin', 'cyrillic', 'greek'];
+
+const isLower = (char: string | undefined): boolean =>
+  char !== undefined && char !== char.toUpperCase();
+const isUpper = (char: string | undefined): boolean =>
+  char !== undefined && char !== char.toLowerCase();
+
+/**
+ * How plausible a decoding is, counted per non-ASCII byte. Letters of the
+ * encoding's script score when they sit in words the way that script is
+ * written: accented Latin letters next to plain ASCII letters, other
+ * scripts away from them. Control characters, replacements and capitals in
+ * the middle of a word cost points.
+ */
+function scoreDecoding(text: string, script: Script): number {
+  const chars = Array.from(text);
+  const pattern = SCRIPT_PATTERNS[script];
+  const common = COMMON_CJK[script];
+  const cjk = common !== undefined;
+  const cased = CASED_SCRIPTS.includes(script);
+  let score = 0;
+  let letters = 0;
+  let capitals = 0;
+
+  chars.forEach((char, i) => {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) return;
+    if (char === '\uFFFD' || (code >= 0x80 && code <= 0x9f)) {
+      score -= 5;
+      return;
+    }
+    if (HALFWIDTH_KANA.test(char)) return;
+    if (cjk && CJK_PUNCTUATION.test(char)) {
+      score += 2;
+      return;
+    }
+    if (common?.test(char)) {
+      score += 2;
+    }
+    if (!pattern.test(char)) return;
+
+    const previous = chars[i - 1];
+    const next = chars[i + 1];
+    if (cased && ((isUpper(char) && isLower(previous)) || (isLower(char) && isUpper(next)))) {
+      score -= 2;
+      return;
+    }
+    letters++;
+    if (isUpper(char)) capitals++;
+
+    const nextToASCII = isASCIILetter(previous) || isASCIILetter(next);
+    if (script === 'latin' ? nextToASCII : !nextToASCII) {
+      score += cjk ? 2 : 1;
+    }
+  });
+
+  // Text in a cased script that is all lower or all upper case is more
+  // likely another script decoded wrong
+  if (cased && script !== 'latin' && letters >= 8 && (capitals === 0 || capitals === letters)) {
+    score /= 2;
+  }
+  return score;
+}
+
+// à and è as words, ñ before a vowel, ù and û after one (où, août), the
+// Nordic å and ø, letters Central European text decoded wrong rarely has
+const WESTERN_MARKERS = /(?<!\p{L})[àè](?!\p{L})|ñ(?=[aeiou])|(?<=[aeiou])[ùû]|å|ø(?=[dgjlnrs])/giu;
+
+// Central European letters in the places those languages write them,
+// where Western text decoded wrong has ø, è, ì, ù or õ
+const CENTRAL_MARKERS = /[řč](?=[aeiouyáéíěů])|(?<=[bdfmnptv])ě|(?<=[bcčdfghjklmnpřrsštvzž])ů|ő(?!e)/giu;
+
+/**
+ * Letters that tell the Latin encodings apart. They decode one to one into
+ * letters of the other Latin encodings, which score the same, so each one
+ * counts again for the encoding it belongs to.
+ */
+const LATIN_MARKERS: Partial<Record<string, RegExp>> = {
+  'windows-1252': WESTERN_MARKERS,
+  'iso-8859-15': WESTERN_MARKERS,
+  'windows-1250': CENTRAL_MARKERS,
+  'iso-8859-2': CENTRAL_MARKERS,
+  // Western decodes these to the Icelandic ý, þ and ð. No word starts with ğ.
+  'windows-1254': /[ıİşŞ]|(?<=\p{L})[ğĞ]/gu,
+};
+
+function tryDecode(bytes: Uint8Array, encoding: string, fatal: boolean): string | undefined {
+  try {
+    return new TextDecoder(encoding, { fatal }).decode(bytes);
+  } catch {
+    // Invalid for this encoding, or the runtime has no decoder for it
+    return undefined;
+  }
+}
+
+/**
+ * Guess the encoding of a file: BOM first, then UTF-16 and strict UTF-8,
+ * then the legacy encoding whose decoding looks most like real text.
+ */
+export function detectEncoding(bytes: Uint8Array): DetectedEncoding {
+  const bom = sniffBOM(bytes);
+  if (bom) return { encoding: bom, source: 'bom', confidence: 1 };
+
+  const utf16 = sniffUTF16(bytes);
+  if (utf16) return { encoding: utf16, source: 'heuristic', confidence: 0.9 };
+
+  if (tryDecode(bytes, 'utf-8', true) !== undefined) {
+    return { encoding: 'utf-8', source: 'heuristic', confidence: 1 };
+  }
+
+  const highBytes = bytes.reduce((count, byte) => count + (byte >= 0x80 ? 1 : 0), 0);
+  const candidates: { encoding: string; script: Script; text: string; score: number }[] = [];
+  for (const [encoding, { script }] of Object.entries(INPUT_ENCODINGS)) {
+    if (!script) continue;
+    const text = tryDecode(bytes, encoding, true);
+    if (text === undefined) continue;
+    const markers = LATIN_MARKERS[encoding];
+    const score = scoreDecoding(text, script) + (markers ? (text.match(markers)?.length ?? 0) : 0);
+    candidates.push({ encoding, script, text, score });
+  }
+
+  // Ties go to the earlier, more common encoding
+  const best = candidates.reduce<(typeof candidates)[number] | undefined>(
+    (best, candidate) => (best && best.score >= candidate.score ? best : candidate),
+    undefined
+  );
+  if (!best) return { encoding: 'windows-1252', source: 'heuristic', confidence: 0 };
+
+  let confidence = best.score / Math.max(highBytes, 1);
+  // Another Latin encoding that reads differently and scores close could
+  // just as well be the one, sure only by the lead it has
+  if (best.script === 'latin') {
+    const rival = Math.max(
+      ...candidates
+        .filter((candidate) => candidate !== best && candidate.script === 'latin' && candidate.text !== best.text)
+        .map((candidate) => candidate.score)
+    );
+    if (rival > -Infinity) {
+      confidence = Math.min(confidence, 0.5 + (best.score - rival) / Math.max(highBytes, 1));
+    }
+  }
+  return { encoding: best.encoding, source: 'heuristic', confidence: Math.max(0, Math.min(1, confidence)) };
+}
+
+/**
+ * Decode file contents, using `override` when the user picked an encoding.
+ * A leading BOM is removed.
+ */
+export function decodeText(
+  bytes: Uint8Array,
+  override?: string
+): { text: string; encoding: DetectedEncoding } {
+  const encoding: DetectedEncoding =
+    override && isInputEncoding(override)
+      ? { encoding: override, source: 'manual', confidence: 1 }
+      : detectEncoding(bytes);
+
+  const text = tryDecode(bytes, encoding.encoding, false);
+  if (text === undefined) {
+    throw new Error(`Encoding ${encoding.encoding} is not supported`);
+  }
+  return { text: text.replace(/^\uFEFF/, ''), encoding };
+}
+
+// Character to byte table of a single-byte encoding, built from its decoder
+const singleByteTables = new Map<string, Map<string, number>>();
+
+function singleByteTable(encoding: string): Map<string, number> {
+  let table = singleByteTables.get(encoding);
+  if (!table) {
+    table = new Map();
+    const decoder = new TextDecoder(encoding);
+    for (let byte = 0x80; byte <= 0xff; byte++) {
+      const char = decoder.decode(new Uint8Array([byte]));
+      if (char !== '\uFFFD') table.set(char, byte);
+    }
+    singleByteTables.set(encoding, table);
+  }
+  return table;
+}
+
+/**
+ * Encode text for download. Characters the encoding can't represent are
+ * written as "?" and counted in `unmappable`. Streamed files only write
+ * the byte order mark before their first chunk, see `withBOM`.
+ */
+export function encodeText(
+  text: string,
+  encoding: OutputEncoding,
+  withBOM = true
+): { bytes: Uint8Array<ArrayBuffer>; unmappable: number } {
+  const bom = withBOM ? '\uFEFF' : '';
+  switch (encoding) {
+    case 'utf-8':
+      return { bytes: new TextEncoder().encode(text), unmappable: 0 };
+    case 'utf-8-bom':
+      return { bytes: new TextEncoder().encode(bom + text), unmappable: 0 };
+    case 'utf-16le':
+    case 'utf-16be': {
+      const littleEndian = encoding === 'utf-16le';
+      const marked = bom + text;
+      const view = new DataView(new ArrayBuffer(marked.length * 2));
+      for (let i = 0; i < marked.length; i++) {
+        view.setUint16(i * 2, marked.charCodeAt(i), littleEndian);
+      }
+      return { bytes: new Uint8Array(view.buffer), unmappable: 0 };
+    }
+    default: {
+      const table = singleByteTable(encoding);
+      const chars = Array.from(text);
+      const bytes = new Uint8Array(chars.length);
+      let unmappable = 0;
+      chars.forEach((char, i) => {
+        const code = char.codePointAt(0)!;
+        if (code < 0x80) {
+          bytes[i] = code;
+        } else if (table.has(char)) {
+          bytes[i] = table.get(char)!;
+        } else {
+          bytes[i] = 0x3f; // ?
+          unmappable++;
+        }
+      });
+      return { bytes, unmappable };
+    }
+  }
+}
+
+// Charset parameter for the Content-Type header
+export const charsetOf = (encoding: OutputEncoding): string =>
+  encoding === 'utf-8-bom' ? 'utf-8' : encoding;
@@ -0,0 +1,203 @@
+import type { BuildOptions, SubtitleInput, SupportedFormat } from './formats';
+import {
+  CONTENT_TYPES,
+  SUPPORTED_FORMATS,
+  TEXT_FORMATS,
+  buildSubtitleContent,
+  createSubtitleSerializer,
+  isBilingualOrder,
+} from './formats';
+import { normalizeASSDocument } from './ass';
+import type { OutputEncoding } from './encoding';
+import { charsetOf, encodeText, isLineEnding, isOutputEncoding } from './encoding';
+import type { SDHElement } from './sdh';
+import { isSDHElement, processSDH } from './sdh';
+import { isValidFrameRate } from './timing';
+import { CUE_CHUNK_SIZE } from './worker';
+
+/**
+ * Turning edited captions into a downloadable file, shared by the single
+ * file and the ZIP download.
+ */
+
+export interface ExportOptions extends Omit<BuildOptions, 'document'> {
+  // Unchecked ASS/SSA document as sent by the client
+  document?: unknown;
+  encoding?: OutputEncoding;
+  // SDH annotations to remove, for a track without them
+  removeSDH?: SDHElement[];
+}
+
+export interface ExportedFile {
+  contentType: string;
+  bytes: Uint8Array<ArrayBuffer>;
+  // Characters the encoding can't represent, written as "?"
+  unmappable: number;
+}
+
+/**
+ * Check the download options of a request body. Returns an error message,
+ * or undefined when they are valid.
+ */
+export function validateExportOptions(body: Record<string, any>): string | undefined {
+  const { fps, bilingual, encoding, lineEnding, removeSDH } = body;
+  if (fps !== undefined && !isValidFrameRate(fps)) {
+    return 'Invalid frame rate';
+  }
+  if (bilingual && !isBilingualOrder(bilingual.order)) {
+    return 'Unsupported bilingual order';
+  }
+  if (encoding !== undefined && !isOutputEncoding(encoding)) {
+    return 'Unsupported encoding';
+  }
+  if (lineEnding !== undefined && !isLineEnding(lineEnding)) {
+    return 'Unsupported line ending';
+  }
+  if (removeSDH !== undefined && !(Array.isArray(removeSDH) && removeSDH.every(isSDHElement))) {
+    return 'Unsupported SDH annotation';
+  }
+  return undefined;
+}
+
+// Name of the downloaded file, e.g. movie-subtitletranslatorai.com.srt
+export const outputFilename = (filename: string, format: SupportedFormat): string =>
+  `${filename.replace(/\.[^/.]+$/, '')}-subtitletranslatorai.com.${SUPPORTED_FORMATS[format]}`;
+
+/**
+ * Content-Disposition of a download. Headers only take Latin-1, so names
+ * like 第1話.srt get an ASCII `filename` for old clients and the real one
+ * percent-encoded in `filename*`.
+ */
+export function contentDisposition(filename: string, format: SupportedFormat): string {
+  const name = outputFilename(filename, format);
+  const fallback = name.replace(/["\\]/g, '').replace(/[^\x20-\x7e]/g, '_');
+  const encoded = encodeURIComponent(name).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+// JSON is always UTF-8, text formats default to UTF-8 with a BOM
+const outputEncoding = (format: SupportedFormat, options: ExportOptions): OutputEncoding =>
+  format === 'json'
+    ? 'utf-8'
+    : options.encoding ?? (TEXT_FORMATS.includes(format) ? 'utf-8-bom' : 'utf-8');
+
+const contentTypeOf = (format: SupportedFormat, encoding: OutputEncoding): string =>
+  `${CONTENT_TYPES[format]}; charset=${charsetOf(encoding)}`;
+
+const buildOptionsOf = (options: ExportOptions): BuildOptions => ({
+  document: normalizeASSDocument(options.document),
+  bilingual: options.bilingual ? { order: options.bilingual.order } : undefined,
+  fps: options.fps,
+  lineEnding: options.lineEnding,
+});
+
+// Cues left empty once the SDH annotations are removed are not written
+const cuesOf = (subtitles: SubtitleInput[], options: ExportOptions): SubtitleInput[] =>
+  options.removeSDH?.length ? processSDH(subtitles, options.removeSDH).cues : subtitles;
+
+/**
+ * Build and encode a subtitle file. Throws when the captions can't be
+ * written in the format.
+ */
+export function exportSubtitles(
+  subtitles: SubtitleInput[],
+  format: SupportedFormat,
+  options: ExportOptions = {}
+): ExportedFile {
+  const content = buildSubtitleContent(cuesOf(subtitles, options), format, buildOptionsOf(options));
+  if (!content) {
+    throw new Error('Failed to build subtitle content');
+  }
+
+  const encoding = outputEncoding(format, options);
+  const { bytes, unmappable } = encodeText(content, encoding);
+
+  return {
+    contentType: contentTypeOf(format, encoding),
+    bytes,
+    unmappable,
+  };
+}
+
+/**
+ * `exportSubtitles` a chunk of cues at a time, waiting for `afterChunk`
+ * (given the number of cues written and to write) in between. The subtitle worker uses
+ * it to report progress and to stop when a build is cancelled.
+ */
+export async function exportSubtitlesInChunks(
+  input: SubtitleInput[],
+  format: SupportedFormat,
+  options: ExportOptions,
+  afterChunk: (done: number, total: number) => Promise<void>
+): Promise<ExportedFile> {
+  const subtitles = cuesOf(input, options);
+  const { header, cues, footer } = createSubtitleSerializer(
+    format,
+    buildOptionsOf(options),
+    subtitles.length
+  );
+  const parts = [header];
+  for (let offset = 0; offset < subtitles.length; offset += CUE_CHUNK_SIZE) {
+    parts.push(cues(subtitles.slice(offset, offset + CUE_CHUNK_SIZE), offset));
+    await afterChunk(Math.min(offset + CUE_CHUNK_SIZE, subtitles.length), subtitles.length);
+  }
+  parts.push(footer);
+
+  const content = parts.join('');
+  if (!content) {
+    throw new Error('Failed to build subtitle content');
+  }
+  const encoding = outputEncoding(format, options);
+  const { bytes, unmappable } = encodeText(content, encoding);
+  return { contentType: contentTypeOf(format, encoding), bytes, unmappable };
+}
+
+/**
+ * Build and encode a subtitle file a chunk of cues at a time, so long files
+ * never sit in memory as one string. The bytes are the same as
+ * `exportSubtitles`, but unmappable characters can't be counted before the
+ * response starts.
+ */
+export function streamSubtitles(
+  input: SubtitleInput[],
+  format: SupportedFormat,
+  options: ExportOptions = {}
+): { contentType: string; stream: ReadableStream<Uint8Array> } {
+  const subtitles = cuesOf(input, options);
+  const { header, cues, footer } = createSubtitleSerializer(
+    format,
+    buildOptionsOf(options),
+    subtitles.length
+  );
+  const encoding = outputEncoding(format, options);
+  let offset = 0;
+  let started = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      let text = '';
+      if (!started) {
+        text += header;
+      }
+      if (offset < subtitles.length) {
+        text += cues(subtitles.slice(offset, offset + CUE_CHUNK_SIZE), offset);
+        offset += CUE_CHUNK_SIZE;
+      }
+      const done = offset >= subtitles.length;
+      if (done) {
+        text += footer;
+      }
+      // The byte order mark only goes before the first chunk
+      controller.enqueue(encodeText(text, encoding, !started).bytes);
+      started = true;
+      if (done) {
+        controller.close();
+      }
+    },
+  });
+
+  return { contentType: contentTypeOf(format, encoding), stream };
+}
@@ -0,0 +1,432 @@
+import subsrt from 'subsrt-ts';
+import type { ASSDocument, ASSEventFields } from './ass';
+import { addASSStyles, createASSSerializer } from './ass';
+import type { MarkupTarget } from './markup';
+import { convertMarkup, getAlignment, removeAlignment } from './markup';
+import { DEFAULT_FPS, msToFrame } from './timing';
+import { formatTime } from './timecode';
+import type { LineEnding } from './encoding';
+import { LINE_ENDINGS } from './encoding';
+
+// Supported subtitle formats and their file extensions
+export const SUPPORTED_FORMATS = {
+  srt: 'srt',
+  vtt: 'vtt',
+  sub: 'sub',
+  sbv: 'sbv',
+  lrc: 'lrc',
+  smi: 'smi',
+  ssa: 'ssa',
+  ass: 'ass',
+  json: 'json',
+} as const;
+
+export type SupportedFormat = keyof typeof SUPPORTED_FORMATS;
+
+// Content type mapping for different formats
+export const CONTENT_TYPES: Record<SupportedFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  sub: 'text/plain',
+  sbv: 'text/plain',
+  lrc: 'text/plain',
+  smi: 'text/plain',
+  ssa: 'text/plain',
+  ass: 'text/plain',
+  json: 'application/json',
+};
+
+// Formats that get a UTF-8 BOM on download unless another encoding is chosen
+export const TEXT_FORMATS: SupportedFormat[] = [
+  'srt',
+  'vtt',
+  'sub',
+  'sbv',
+  'lrc',
+  'smi',
+  'ssa',
+  'ass',
+];
+
+// Inline markup each format can carry, everything else is exported as plain text
+const MARKUP_TARGETS: Record<SupportedFormat, MarkupTarget> = {
+  srt: 'srt',
+  vtt: 'vtt',
+  sub: 'plain',
+  sbv: 'plain',
+  lrc: 'plain',
+  smi: 'plain',
+  ssa: 'ssa',
+  ass: 'ass',
+  json: 'canonical',
+};
+
+/**
+ * A caption as sent by the editor. `content` holds canonical markup.
+ */
+export interface SubtitleInput {
+  index?: number;
+  start: number;
+  end: number;
+  content?: string;
+  text?: string;
+  // Event fields of ASS/SSA uploads, see utils/ass
+  ass?: ASSEventFields;
+  // Source text, only used by bilingual exports
+  original?: string;
+}
+
+// Which language is written first (on top) in bilingual exports
+export const BILINGUAL_ORDERS = ['original-first', 'translation-first'] as const;
+export type BilingualOrder = (typeof BILINGUAL_ORDERS)[number];
+
+export interface BuildOptions {
+  // Frame rate of MicroDVD output
+  fps?: number;
+  // Header and styles of the uploaded ASS/SSA file
+  document?: ASSDocument;
+  // Write the original and the translated text together
+  bilingual?: { order: BilingualOrder };
+  // Windows (CRLF, the default) or Unix (LF) line endings
+  lineEnding?: LineEnding;
+}
+
+// Styles added to ASS/SSA bilingual exports
+const BILINGUAL_STYLES = {
+  original: 'Original',
+  translation: 'Translation',
+};
+
+export function isSupportedFormat(format: unknown): format is SupportedFormat {
+  return typeof format === 'string' && format in SUPPORTED_FORMATS;
+}
+
+export function isBilingualOrder(order: unknown): order is BilingualOrder {
+  return BILINGUAL_ORDERS.includes(order as BilingualOrder);
+}
+
+const pad = (n: number, length = 2): string =>
+  n.toString().padStart(length, '0');
+
+function formatVTTTime(ms: number): string {
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(
+    Math.floor(ms % 1000),
+    3
+  )}`;
+}
+
+// WebVTT has no inline positioning, {\anN} becomes cue settings instead
+function vttCueSettings(alignment: number | undefined): string {
+  if (!alignment || alignment === 2) return '';
+  const settings: string[] = [];
+  if (alignment >= 7) settings.push('line:0');
+  else if (alignment >= 4) settings.push('line:50%');
+  if (alignment % 3 === 1) settings.push('align:left');
+  else if (alignment % 3 === 0) settings.push('align:right');
+  return settings.length > 0 ? ' ' + settings.join(' ') : '';
+}
+
+// Both languages stacked in one cue, positioned by the first one
+function stackBilingual(
+  subtitles: SubtitleInput[],
+  order: BilingualOrder
+): SubtitleInput[] {
+  return subtitles.map((sub) => {
+    const translation = sub.content ?? sub.text ?? '';
+    const original = sub.original ?? '';
+    const [first, second] =
+      order === 'original-first' ? [original, translation] : [translation, original];
+    return {
+      ...sub,
+      content: [first, removeAlignment(second)]
+        .filter((part) => part.trim())
+        .join('\n'),
+    };
+  });
+}
+
+/**
+ * A subtitle file written in pieces: the header, the cues a chunk at a time,
+ * then the footer. Long files are streamed this way instead of being built
+ * as one string.
+ */
+export interface SubtitleSerializer {
+  header: string;
+  // Cues starting at position `offset` of the file, which numbers them
+  cues(subtitles: SubtitleInput[], offset: number): string;
+  footer: string;
+}
+
+function vttSerializer(eol: string): SubtitleSerializer {
+  return {
+    header: `WEBVTT${eol}${eol}`,
+    cues: (subtitles, offset) =>
+      subtitles
+        .map((sub, i) => {
+          const source = sub.content ?? sub.text ?? '';
+          return (
+            `${offset + i + 1}${eol}` +
+            `${formatVTTTime(sub.start)} --> ${formatVTTTime(sub.end)}` +
+            `${vttCueSettings(getAlignment(source))}${eol}` +
+            convertMarkup(source, 'vtt').replace(/\n/g, eol) +
+            eol +
+            eol
+          );
+        })
+        .join(''),
+    footer: '',
+  };
+}
+
+// One event per language, each on its own style at the top or bottom
+function bilingualASSSerializer(
+  format: 'ass' | 'ssa',
+  options: BuildOptions,
+  total: number,
+  eol: string
+): SubtitleSerializer {
+  const originalFirst = options.bilingual?.order === 'original-first';
+  const { document, names } = addASSStyles(options.document, format, [
+    { name: BILINGUAL_STYLES.original, alignment: originalFirst ? 8 : 2 },
+    { name: BILINGUAL_STYLES.translation, alignment: originalFirst ? 2 : 8 },
+  ]);
+  const [originalStyle, translationStyle] = names;
+
+  // Every cue became two events, keep comments next to the same cue
+  const comments = document.comments.map((comment) => ({
+    ...comment,
+    after: comment.after * 2,
+  }));
+  const { header, events, footer } = createASSSerializer(
+    format,
+    { ...document, comments },
+    total * 2,
+    eol
+  );
+
+  return {
+    header,
+    cues: (subtitles, offset) =>
+      events(
+        subtitles.flatMap((sub) =>
+          [
+            { style: originalStyle, text: sub.original ?? '' },
+            { style: translationStyle, text: sub.content ?? sub.text ?? '' },
+          ].map(({ style, text }) => ({
+            start: sub.start,
+            end: sub.end,
+            // The styles decide the position, not inline {\anN} blocks
+            text: convertMarkup(removeAlignment(text), format),
+            fields: { ...sub.ass, Style: style },
+          }))
+        ),
+        offset * 2
+      ),
+    footer,
+  };
+}
+
+function assSerializer(
+  format: 'ass' | 'ssa',
+  options: BuildOptions,
+  total: number,
+  eol: string
+): SubtitleSerializer {
+  const { header, events, footer } = createASSSerializer(format, options.document, total, eol);
+  return {
+    header,
+    cues: (subtitles, offset) =>
+      events(
+        subtitles.map((sub) => ({
+          start: sub.start,
+          end: sub.end,
+          text: convertMarkup(sub.content ?? sub.text ?? '', format),
+          fields: sub.ass,
+        })),
+        offset
+      ),
+    footer,
+  };
+}
+
+// Captions as subsrt builds them
+function toSubsrtCaptions(
+  subtitles: SubtitleInput[],
+  format: SupportedFormat,
+  offset: number,
+  fps: number,
+  eol: string
+) {
+  const target = MARKUP_TARGETS[format];
+  // The text subsrt writes, with the line breaks the format has
+  const lines = (text: string, content: string): string => {
+    switch (format) {
+      // MicroDVD separates lines with a pipe
+      case 'sub':
+        return text.replace(/\n/g, '|');
+      // An LRC entry is one line, a second one would have no timestamp
+      case 'lrc':
+        return text.replace(/\s*\n\s*/g, ' ');
+      // Plain text next to the markup in `content`
+      case 'json':
+        return convertMarkup(content, 'plain');
+      default:
+        return text.replace(/\n/g, eol);
+    }
+  };
+  return subtitles.map((sub, i) => {
+    const content = sub.content ?? sub.text ?? '';
+    const text = convertMarkup(content, target);
+    return {
+      type: 'caption' as const,
+      index: offset + i + 1,
+      start: sub.start,
+      end: sub.end,
+      duration: sub.end - sub.start,
+      content: text,
+      text: lines(text, content),
+      // subsrt multiplies milliseconds by the fps, so frames are passed in
+      frame:
+        format === 'sub'
+          ? {
+              start: msToFrame(sub.start, fps),
+              end: msToFrame(sub.end, fps),
+              count: msToFrame(sub.end, fps) - msToFrame(sub.start, fps),
+            }
+          : undefined,
+    };
+  });
+}
+
+/**
+ * subsrt only writes whole files, so each chunk is built as a file of its
+ * own and the parts written once per file are cut out of it.
+ */
+function subsrtSerializer(
+  format: SupportedFormat,
+  options: BuildOptions,
+  total: number,
+  eol: string
+): SubtitleSerializer {
+  const fps = options.fps ?? DEFAULT_FPS;
+  const build = (subtitles: SubtitleInput[], offset: number) =>
+    subsrt.build(toSubsrtCaptions(subtitles, format, offset, fps, eol), {
+      format,
+      verbose: false,
+      eol,
+    });
+
+  switch (format) {
+    case 'srt':
+      // subsrt numbers every build from 1
+      return {
+        header: '',
+        cues: (subtitles, offset) =>
+          toSubsrtCaptions(subtitles, format, offset, fps, eol)
+            .map(
+              (caption) =>
+                `${caption.index}${eol}` +
+                `${formatTime(caption.start)} --> ${formatTime(caption.end)}${eol}` +
+                `${caption.text}${eol}${eol}`
+            )
+            .join(''),
+        footer: '',
+      };
+
+    case 'json': {
+      // One array, each caption indented as JSON.stringify would
+      const item = (caption: object) =>
+        JSON.stringify(caption, undefined, 2).replace(/^/gm, '  ');
+      return {
+        header: total > 0 ? '[\n' : '[',
+        cues: (subtitles, offset) =>
+          toSubsrtCaptions(subtitles, format, offset, fps, eol)
+            .map((caption, i) => (offset + i > 0 ? ',\n' : '') + item(caption))
+            .join(''),
+        footer: total > 0 ? '\n]' : ']',
+      };
+    }
+
+    case 'smi': {
+      // The SAMI head and body tags around the captions
+      const empty = build([], 0);
+      const bodyEnd = empty.lastIndexOf('</BODY>');
+      const header = empty.slice(0, bodyEnd);
+      const footer = empty.slice(bodyEnd);
+      return {
+        header,
+        cues: (subtitles, offset) =>
+          subtitles.length > 0
+            ? build(subtitles, offset).slice(header.length, -footer.length)
+            : '',
+        footer,
+      };
+    }
+
+    case 'lrc':
+      // A blank line starts the lyrics
+      return {
+        header: total > 0 ? eol : '',
+        cues: (subtitles, offset) =>
+          subtitles.length > 0 ? build(subtitles, offset).slice(eol.length) : '',
+        footer: '',
+      };
+
+    default:
+      return { header: '', cues: build, footer: '' };
+  }
+}
+
+/**
+ * Serializer for a file of `total` captions, converting their inline markup
+ * to what the format supports.
+ */
+export function createSubtitleSerializer(
+  format: SupportedFormat,
+  options: BuildOptions,
+  total: number
+): SubtitleSerializer {
+  const eol = LINE_ENDINGS[options.lineEnding ?? 'crlf'];
+
+  if (options.bilingual) {
+    if (format === 'ass' || format === 'ssa') {
+      return bilingualASSSerializer(format, options, total, eol);
+    }
+    const { order } = options.bilingual;
+    const serializer = createSubtitleSerializer(
+      format,
+      { ...options, bilingual: undefined },
+      total
+    );
+    return {
+      ...serializer,
+      cues: (subtitles, offset) => serializer.cues(stackBilingual(subtitles, order), offset),
+    };
+  }
+
+  if (format === 'vtt') {
+    return vttSerializer(eol);
+  }
+
+  if (format === 'ass' || format === 'ssa') {
+    return assSerializer(format, options, total, eol);
+  }
+
+  return subsrtSerializer(format, options, total, eol);
+}
+
+/**
+ * Serialize captions to a subtitle format, converting their inline markup
+ * to what the format supports.
+ */
+export function buildSubtitleContent(
+  subtitles: SubtitleInput[],
+  format: SupportedFormat,
+  options: BuildOptions = {}
+): string {
+  const { header, cues, footer } = createSubtitleSerializer(format, options, subtitles.length);
+  return header + cues(subtitles, 0) + footer;
+}
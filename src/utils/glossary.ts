@@ -0,0 +1,194 @@
+import type { GlossaryEntry, GlossaryViolation } from '../types/gemini';
+import { stripMarkup } from './markup';
+import type { RowRenderEvent } from './table';
+import { getLine, refreshLines, rowField } from './table';
+
+// Keeps prompts reasonably small, longer lists are cut off
+export const MAX_GLOSSARY_ENTRIES = 200;
+const MAX_TERM_LENGTH = 100;
+
+const STORAGE_KEY = 'subtitle_glossary';
+
+/**
+ * Read a glossary from text, one entry per line:
+ *   Jon Snow => Jon Nieve   required translation (also "=", tab or comma)
+ *   Winterfell              do not translate
+ * Lines starting with # are comments.
+ */
+export function parseGlossary(text: string): GlossaryEntry[] {
+  const entries: GlossaryEntry[] = [];
+  for (const rawLine of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const separator = ['=>', '\t', '=', ','].find((candidate) =>
+      line.includes(candidate)
+    );
+    const [source, ...rest] = separator ? line.split(separator) : [line];
+    const target = rest.join(separator).trim().replace(/^"(.*)"$/, '$1');
+    entries.push({
+      source: source.trim().replace(/^"(.*)"$/, '$1'),
+      target: target || undefined,
+    });
+  }
+  return normalizeGlossary(entries);
+}
+
+// The text form of a glossary, as read by parseGlossary
+export function formatGlossary(entries: GlossaryEntry[]): string {
+  return entries
+    .map((entry) => (entry.target ? `${entry.source} => ${entry.target}` : entry.source))
+    .join('\n');
+}
+
+/**
+ * Validate a glossary sent by the client: drops malformed entries and
+ * duplicates, and caps the number of entries.
+ */
+export function normalizeGlossary(value: unknown): GlossaryEntry[] {
+  if (!Array.isArray(value)) return [];
+
+  const seen = new Set<string>();
+  const entries: GlossaryEntry[] = [];
+  for (const item of value) {
+    const source = typeof item?.source === 'string' ? item.source.trim() : '';
+    const target = typeof item?.target === 'string' ? item.target.trim() : '';
+    if (!source || source.length > MAX_TERM_LENGTH || target.length > MAX_TERM_LENGTH) {
+      continue;
+    }
+    if (seen.has(source.toLowerCase())) continue;
+    seen.add(source.toLowerCase());
+    entries.push(target && target !== source ? { source, target } : { source });
+    if (entries.length >= MAX_GLOSSARY_ENTRIES) break;
+  }
+  return entries;
+}
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Scripts written without spaces can't use word boundaries
+const NO_SPACE_SCRIPTS = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+function termPattern(term: string): RegExp {
+  const needsBoundary = (char: string) =>
+    WORD_CHAR.test(char) && !NO_SPACE_SCRIPTS.test(char);
+  const before = needsBoundary(term[0]) ? '(?<![\\p{L}\\p{N}])' : '';
+  const after = needsBoundary(term[term.length - 1]) ? '(?![\\p{L}\\p{N}])' : '';
+  return new RegExp(before + escapeRegExp(term) + after, 'iu');
+}
+
+export function containsTerm(text: string, term: string): boolean {
+  return termPattern(term).test(stripMarkup(text));
+}
+
+// The rendering a term must have in the output
+export const requiredRendering = (entry: GlossaryEntry): string =>
+  entry.target ?? entry.source;
+
+// Entries whose source term appears in any of the texts
+export function relevantGlossary(
+  entries: GlossaryEntry[],
+  texts: string[]
+): GlossaryEntry[] {
+  return entries.filter((entry) =>
+    texts.some((text) => containsTerm(text, entry.source))
+  );
+}
+
+/**
+ * Prompt section listing the glossary, empty when there is none.
+ */
+export function glossaryPrompt(entries: GlossaryEntry[]): string {
+  if (entries.length === 0) return '';
+
+  const required = entries.filter((entry) => entry.target);
+  const keep = entries.filter((entry) => !entry.target);
+  const lines = ['GLOSSARY (mandatory, overrides any other wording choice):'];
+  if (required.length > 0) {
+    lines.push('Always render these terms exactly as given:');
+    lines.push(...required.map((entry) => `- "${entry.source}" => "${entry.target}"`));
+  }
+  if (keep.length > 0) {
+    lines.push('Never translate or respell these terms, copy them as they are:');
+    lines.push(...keep.map((entry) => `- "${entry.source}"`));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Terms that appear in the source line but whose required rendering is
+ * missing from the output.
+ */
+export function checkGlossary(
+  entries: GlossaryEntry[],
+  index: number,
+  source: string,
+  output: string
+): GlossaryViolation[] {
+  if (!output.trim()) return [];
+  return entries
+    .filter(
+      (entry) =>
+        containsTerm(source, entry.source) &&
+        !containsTerm(output, requiredRendering(entry))
+    )
+    .map((entry) => ({
+      index,
+      source: entry.source,
+      expected: requiredRendering(entry),
+    }));
+}
+
+// Browser-side storage, the raw text is kept so comments survive
+export const getGlossaryText = (): string =>
+  localStorage.getItem(STORAGE_KEY) || '';
+
+export const saveGlossaryText = (text: string): void => {
+  if (text.trim()) {
+    localStorage.setItem(STORAGE_KEY, text);
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+};
+
+export const loadGlossary = (): GlossaryEntry[] =>
+  parseGlossary(getGlossaryText());
+
+/**
+ * Check table lines against the stored glossary and highlight the lines
+ * that miss a required term. Returns the number of flagged lines.
+ */
+export function highlightGlossaryViolations(indices: number[]): number {
+  const entries = loadGlossary();
+  let flagged = 0;
+
+  for (const index of indices) {
+    const line = getLine(index);
+    if (!line) continue;
+
+    const violations = checkGlossary(entries, index, line.content, line.translation);
+    line.glossary =
+      violations.length > 0
+        ? violations.map((violation) => `"${violation.source}" should be "${violation.expected}"`).join(', ')
+        : undefined;
+    if (violations.length > 0) flagged++;
+  }
+
+  refreshLines(indices);
+  return flagged;
+}
+
+// Show the glossary misses of each line in its row
+export function initGlossaryHighlights(): void {
+  document.addEventListener('row:render', (event) => {
+    const { row, line } = (event as RowRenderEvent).detail;
+    const message = rowField(row, 'glossary');
+    rowField(row, 'trans')?.classList.toggle('border-warning', Boolean(line.glossary));
+    if (message && line.glossary) {
+      message.classList.remove('d-none');
+      message.textContent = line.glossary;
+    }
+  });
+}
@@ -0,0 +1,137 @@
+import { notifySubtitlesChanged } from './project';
+import { getLine, refreshLines } from './table';
+
+/**
+ * Undo and redo for the translations in the subtitle table: manual edits,
+ * find and replace, translation batches and accepted AI suggestions, and
+ * for the cues split, merged, inserted or deleted.
+ */
+
+export interface TextChange {
+  index: number;
+  before: string;
+  after: string;
+}
+
+export interface HistoryEntry {
+  // Shown on the undo and redo buttons, e.g. "Replace all"
+  label: string;
+  changes: TextChange[];
+  // Puts the rows back for edits that add or remove them
+  restoreStructure?: (key: 'before' | 'after') => void;
+}
+
+// Oldest entries are dropped past this
+export const MAX_HISTORY = 200;
+
+// Browser-side helpers for the subtitle table
+
+const undoStack: HistoryEntry[] = [];
+const redoStack: HistoryEntry[] = [];
+
+// Tells the toolbar what the next undo and redo would do
+function announce(): void {
+  document.dispatchEvent(
+    new CustomEvent('history:change', {
+      detail: {
+        undo: undoStack[undoStack.length - 1]?.label,
+        redo: redoStack[redoStack.length - 1]?.label,
+      },
+    })
+  );
+}
+
+/**
+ * Remember changes already made to the table. Changes that didn't change
+ * anything are left out.
+ */
+export function recordChanges(label: string, changes: TextChange[]): void {
+  const effective = changes.filter((change) => change.before !== change.after);
+  if (effective.length === 0) return;
+  undoStack.push({ label, changes: effective });
+  if (undoStack.length > MAX_HISTORY) undoStack.shift();
+  redoStack.length = 0;
+  announce();
+}
+
+/**
+ * Write new translations to the table and remember them. Returns the
+ * changes that were made.
+ */
+export function applyTextChanges(
+  label: string,
+  updates: { index: number; content: string }[]
+): TextChange[] {
+  const changes: TextChange[] = [];
+  for (const { index, content } of updates) {
+    const line = getLine(index);
+    if (!line || line.translation === content) continue;
+    changes.push({ index, before: line.translation, after: content });
+    line.translation = content;
+  }
+  refreshLines(changes.map((change) => change.index));
+  recordChanges(label, changes);
+  return changes;
+}
+
+/**
+ * Remember an edit of the rows themselves, already made. The table can't
+ * be rebuilt from here, so the edit brings its own way back and forth.
+ */
+export function recordStructureChange(label: string, restoreStructure: (key: 'before' | 'after') => void): void {
+  undoStack.push({ label, changes: [], restoreStructure });
+  if (undoStack.length > MAX_HISTORY) undoStack.shift();
+  redoStack.length = 0;
+  announce();
+}
+
+function restore(entry: HistoryEntry, key: 'before' | 'after'): void {
+  entry.restoreStructure?.(key);
+  for (const change of entry.changes) {
+    const line = getLine(change.index);
+    if (line) line.translation = change[key];
+  }
+  refreshLines(entry.changes.map((change) => change.index));
+  notifySubtitlesChanged();
+}
+
+export function undo(): HistoryEntry | undefined {
+  const entry = undoStack.pop();
+  if (!entry) return undefined;
+  restore(entry, 'before');
+  redoStack.push(entry);
+  announce();
+  return entry;
+}
+
+export function redo(): HistoryEntry | undefined {
+  const entry = redoStack.pop();
+  if (!entry) return undefined;
+  restore(entry, 'after');
+  undoStack.push(entry);
+  announce();
+  return entry;
+}
+
+/**
+ * Record typing in the table, one entry per line each time it loses the
+ * focus with a new text. Undo inside a line is left to the browser.
+ */
+export function trackManualEdits(): void {
+  const snapshots = new WeakMap<HTMLTextAreaElement, string>();
+  document.addEventListener('focusin', (event) => {
+    const target = event.target;
+    if (target instanceof HTMLTextAreaElement && target.matches('.editable-cell')) {
+      snapshots.set(target, target.value);
+    }
+  });
+  document.addEventListener('change', (event) => {
+    const target = event.target;
+    if (!(target instanceof HTMLTextAreaElement) || !target.matches('.editable-cell')) return;
+    const before = snapshots.get(target);
+    if (before === undefined) return;
+    const index = Number(target.closest('tr')?.dataset.index);
+    recordChanges(`Edit line ${index}`, [{ index, before, after: target.value }]);
+    snapshots.set(target, target.value);
+  });
+}
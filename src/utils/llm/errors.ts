@@ -0,0 +1,48 @@
+import type { LLMErrorCode } from '../../types/gemini';
+
+// HTTP status the API routes answer with for each error code
+export const LLM_ERROR_STATUS: Record<LLMErrorCode, number> = {
+  auth: 401,
+  quota: 429,
+  malformed_output: 502,
+  invalid_request: 400,
+  upstream: 502,
+};
+
+export class LLMError extends Error {
+  code: LLMErrorCode;
+  // Seconds the provider asked us to wait (Retry-After, Gemini's RetryInfo)
+  retryAfter?: number;
+
+  constructor(code: LLMErrorCode, message: string, retryAfter?: number) {
+    super(message);
+    this.name = 'LLMError';
+    this.code = code;
+    this.retryAfter = retryAfter;
+  }
+
+  get status(): number {
+    return LLM_ERROR_STATUS[this.code];
+  }
+}
+
+// Map an upstream HTTP status to an error code, shared by the HTTP providers
+export function errorCodeFromStatus(status: number): LLMErrorCode {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 400 || status === 404 || status === 422) {
+    return 'invalid_request';
+  }
+  return 'upstream';
+}
+
+/**
+ * Seconds to wait from a Retry-After header, given either as seconds or as
+ * an HTTP date. Returns undefined when the header is missing or invalid.
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value?.trim()) return undefined;
+  if (/^\d+$/.test(value.trim())) return Number(value.trim());
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - now) / 1000));
+}
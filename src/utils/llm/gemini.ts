@@ -0,0 +1,85 @@
+import { ApiError, GoogleGenAI, Type } from '@google/genai';
+import type { CompletionRequest, LLMProvider } from './index';
+import { LLMError, errorCodeFromStatus } from './errors';
+
+export const GEMINI_DEFAULT_MODEL = 'gemini-2.0-flash-exp';
+
+// subtitleItemsSchema() in the OpenAPI subset Gemini takes
+function responseSchema(withSummary = false) {
+  return {
+    type: Type.OBJECT,
+    properties: {
+      subtitles: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            index: { type: Type.INTEGER },
+            content: { type: Type.STRING },
+          },
+          required: ['index', 'content'],
+          propertyOrdering: ['index', 'content'],
+        },
+      },
+      ...(withSummary ? { summary: { type: Type.STRING } } : {}),
+    },
+    required: withSummary ? ['subtitles', 'summary'] : ['subtitles'],
+  };
+}
+
+/**
+ * Seconds to wait from the RetryInfo detail of a Gemini error, whose message
+ * is the JSON error body, e.g. {"@type": "...RetryInfo", "retryDelay": "17s"}.
+ */
+function parseRetryDelay(message: string): number | undefined {
+  let details: unknown;
+  try {
+    details = JSON.parse(message)?.error?.details;
+  } catch {
+    return undefined;
+  }
+  if (!Array.isArray(details)) return undefined;
+  const info = details.find((detail) => /RetryInfo$/.test(detail?.['@type'] ?? ''));
+  const match = /^(\d+(?:\.\d+)?)s$/.exec(String(info?.retryDelay ?? '').trim());
+  return match ? Math.ceil(Number(match[1])) : undefined;
+}
+
+export function createGeminiProvider(apiKey: string): LLMProvider {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: 'gemini',
+    async complete({ prompt, model, summary }: CompletionRequest): Promise<string> {
+      try {
+        const response = await ai.models.generateContent({
+          model,
+          contents: prompt,
+          config: {
+            responseMimeType: 'application/json',
+            responseSchema: responseSchema(summary),
+          },
+        });
+        return response.text?.trim() || '';
+      } catch (error) {
+        if (error instanceof ApiError) {
+          // Gemini answers an unknown key with 400 INVALID_ARGUMENT
+          const code =
+            error.status === 400 && /API_KEY_INVALID/.test(error.message)
+              ? 'auth'
+              : errorCodeFromStatus(error.status);
+          throw new LLMError(
+            code,
+            `Gemini request failed: ${error.message}`,
+            parseRetryDelay(error.message)
+          );
+        }
+        throw new LLMError(
+          'upstream',
+          `Gemini request failed: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`
+        );
+      }
+    },
+  };
+}
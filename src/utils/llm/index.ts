@@ -0,0 +1,100 @@
+import type {
+  LLMProviderName,
+  LLMRequestOptions,
+  SubtitleItem,
+} from '../../types/gemini';
+import { LLMError } from './errors';
+import { createGeminiProvider, GEMINI_DEFAULT_MODEL } from './gemini';
+import { createMockProvider, MOCK_DEFAULT_MODEL } from './mock';
+import { createOpenAIProvider, OPENAI_DEFAULT_MODEL } from './openai';
+
+export { LLMError } from './errors';
+export {
+  MAX_ITEM_REQUESTS,
+  parseItemResponse,
+  reconcileItems,
+  requestSubtitleItems,
+  subtitleItemsSchema,
+} from './items';
+export {
+  MAX_SUBTITLES_PER_REQUEST,
+  normalizeContext,
+  optimizeFile,
+  optimizeSubtitles,
+  translateFile,
+  translateSubtitles,
+} from './tasks';
+
+export interface CompletionRequest {
+  task: 'optimize' | 'translate';
+  prompt: string;
+  model: string;
+  // The subtitles the prompt is about, only the mock provider reads these
+  subtitles: SubtitleItem[];
+  targetLanguage?: string;
+  // Ask for a summary of the story next to the items
+  summary?: boolean;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  complete(request: CompletionRequest): Promise<string>;
+}
+
+export const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  gemini: GEMINI_DEFAULT_MODEL,
+  openai: OPENAI_DEFAULT_MODEL,
+  mock: MOCK_DEFAULT_MODEL,
+};
+
+export function isProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === 'string' && value in DEFAULT_MODELS;
+}
+
+const normalizeBaseUrl = (url: string): string => url.trim().replace(/\/+$/, '');
+
+/**
+ * Resolve the provider and model for a request, validating the credentials
+ * each provider needs. An OpenAI-compatible `baseUrl` must be one of
+ * `allowedBaseUrls`, the server never calls a host its client picked.
+ * Throws an `invalid_request` or `auth` LLMError.
+ */
+export function createProvider(
+  options: LLMRequestOptions,
+  allowedBaseUrls: string[] = []
+): {
+  provider: LLMProvider;
+  model: string;
+} {
+  const name = options.provider ?? 'gemini';
+  if (!isProviderName(name)) {
+    throw new LLMError('invalid_request', `Unknown provider: ${name}`);
+  }
+  if (options.model !== undefined && typeof options.model !== 'string') {
+    throw new LLMError('invalid_request', 'Model must be a string');
+  }
+  const model = options.model?.trim() || DEFAULT_MODELS[name];
+
+  switch (name) {
+    case 'gemini':
+      if (!options.apiKey || typeof options.apiKey !== 'string') {
+        throw new LLMError('auth', 'API key is required');
+      }
+      return { provider: createGeminiProvider(options.apiKey), model };
+    case 'openai': {
+      if (options.baseUrl !== undefined && typeof options.baseUrl !== 'string') {
+        throw new LLMError('invalid_request', 'Base URL must be a string');
+      }
+      const baseUrl = options.baseUrl?.trim() ? normalizeBaseUrl(options.baseUrl) : undefined;
+      if (baseUrl !== undefined && !allowedBaseUrls.map(normalizeBaseUrl).includes(baseUrl)) {
+        throw new LLMError('invalid_request', 'This server URL is not allowed here');
+      }
+      return {
+        provider: createOpenAIProvider(options.apiKey, baseUrl),
+        model,
+      };
+    }
+    case 'mock':
+      return { provider: createMockProvider(options.apiKey), model };
+  }
+}
@@ -0,0 +1,207 @@
+import type {
+  ItemIssue,
+  OutputDiagnostics,
+  SubtitleItem,
+} from '../../types/gemini';
+import { LLMError } from './errors';
+
+/**
+ * The `{ index, content }` items models answer with, checked against the
+ * lines they were sent. Providers constrain the output to
+ * subtitleItemsSchema(), but models still drop, repeat or merge lines.
+ */
+
+/**
+ * JSON Schema of the response, as sent to OpenAI-compatible servers. With
+ * `withSummary` the model also returns a short summary of the story so
+ * far, see /api/aioptimize.
+ */
+export function subtitleItemsSchema(withSummary = false) {
+  return {
+    type: 'object',
+    properties: {
+      subtitles: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            index: { type: 'integer' },
+            content: { type: 'string' },
+          },
+          required: ['index', 'content'],
+          additionalProperties: false,
+        },
+      },
+      ...(withSummary ? { summary: { type: 'string' } } : {}),
+    },
+    required: withSummary ? ['subtitles', 'summary'] : ['subtitles'],
+    additionalProperties: false,
+  };
+}
+
+// First request plus one for the lines that came back unusable
+export const MAX_ITEM_REQUESTS = 2;
+
+/**
+ * Extract the list of items from a response: `{ "subtitles": [...] }` as
+ * the schema asks, or a bare array, tolerating markdown code fences.
+ * Items are not checked here, see reconcileItems.
+ */
+export function parseItemResponse(text: string): { items: unknown[]; summary?: string } {
+  let jsonText = text.trim();
+
+  // Remove markdown code blocks if present
+  const fenced = jsonText.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  if (fenced) {
+    jsonText = fenced[1];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonText);
+  } catch {
+    throw new LLMError('malformed_output', 'Model response is not valid JSON');
+  }
+
+  if (Array.isArray(parsed)) {
+    return { items: parsed };
+  }
+  const { subtitles, summary } = (parsed ?? {}) as { subtitles?: unknown; summary?: unknown };
+  if (!Array.isArray(subtitles)) {
+    throw new LLMError('malformed_output', 'Response is not a list of subtitles');
+  }
+  return {
+    items: subtitles,
+    summary: typeof summary === 'string' && summary.trim() ? summary.trim() : undefined,
+  };
+}
+
+const isItem = (value: unknown): value is SubtitleItem =>
+  Number.isInteger((value as SubtitleItem | null)?.index) &&
+  typeof (value as SubtitleItem).content === 'string';
+
+// A line much longer than its source while its neighbour is missing
+function looksMerged(source: string, neighbour: string, content: string): boolean {
+  return (
+    content.length > source.length * 1.5 &&
+    content.length >= (source.length + neighbour.length) * 0.75
+  );
+}
+
+/**
+ * Check returned items against the requested lines. Lines come back in
+ * `items` once, with a text, under a requested index; the others are
+ * listed in `retry` with what was wrong in `issues`.
+ */
+export function reconcileItems(
+  requested: SubtitleItem[],
+  returned: unknown[]
+): { items: SubtitleItem[]; retry: SubtitleItem[]; issues: ItemIssue[] } {
+  const sources = new Map(requested.map((item) => [item.index, item.content]));
+  const issues: ItemIssue[] = [];
+  const answers = new Map<number, string[]>();
+
+  for (const value of returned) {
+    if (!isItem(value)) {
+      const index = (value as SubtitleItem | null)?.index;
+      issues.push({ index: Number.isInteger(index) ? index : undefined, reason: 'invalid' });
+      continue;
+    }
+    if (!sources.has(value.index)) {
+      issues.push({ index: value.index, reason: 'unknown_index' });
+      continue;
+    }
+    answers.set(value.index, [...(answers.get(value.index) ?? []), value.content]);
+  }
+
+  const accepted = new Map<number, string>();
+  const rejected = new Set<number>();
+  const reject = (index: number, reason: ItemIssue['reason']) => {
+    rejected.add(index);
+    accepted.delete(index);
+    issues.push({ index, reason });
+  };
+
+  for (const { index, content: source } of requested) {
+    const contents = answers.get(index);
+    if (!contents) {
+      reject(index, 'missing');
+    } else if (new Set(contents).size > 1) {
+      reject(index, 'duplicate');
+    } else if (!contents[0].trim() && source.trim()) {
+      reject(index, 'empty');
+    } else {
+      accepted.set(index, contents[0]);
+    }
+  }
+
+  // Both lines of a merge are asked for again, neither is usable as is
+  for (const { index, content: source } of requested) {
+    if (answers.has(index)) continue;
+    for (const neighbour of [index - 1, index + 1]) {
+      const content = accepted.get(neighbour);
+      if (content !== undefined && looksMerged(sources.get(neighbour)!, source, content)) {
+        reject(neighbour, 'merged');
+      }
+    }
+  }
+
+  return {
+    items: requested
+      .filter((item) => accepted.has(item.index))
+      .map((item) => ({ index: item.index, content: accepted.get(item.index)! })),
+    retry: requested.filter((item) => rejected.has(item.index)),
+    issues,
+  };
+}
+
+/**
+ * Ask a model for the items of a batch, then once more for the lines it got
+ * wrong. `complete` builds the prompt for the lines it is given. Errors are
+ * thrown as long as nothing usable came back, after that the remaining
+ * lines are reported as failed in the diagnostics. The summary is the
+ * first one returned, if the prompt asked for one.
+ */
+export async function requestSubtitleItems(
+  subtitles: SubtitleItem[],
+  complete: (subtitles: SubtitleItem[]) => Promise<string>
+): Promise<{ items: SubtitleItem[]; diagnostics: OutputDiagnostics; summary?: string }> {
+  const items: SubtitleItem[] = [];
+  const issues: ItemIssue[] = [];
+  let summary: string | undefined;
+  let pending = subtitles;
+  let requests = 0;
+  let lastError: unknown;
+
+  while (pending.length > 0 && requests < MAX_ITEM_REQUESTS) {
+    requests++;
+    let returned: unknown[];
+    try {
+      const response = parseItemResponse(await complete(pending));
+      returned = response.items;
+      summary ??= response.summary;
+    } catch (error) {
+      const malformed = error instanceof LLMError && error.code === 'malformed_output';
+      if (!malformed && items.length === 0) throw error;
+      if (malformed) issues.push({ reason: 'malformed' });
+      lastError = error;
+      if (!malformed) break;
+      continue;
+    }
+
+    const result = reconcileItems(pending, returned);
+    items.push(...result.items);
+    issues.push(...result.issues);
+    pending = result.retry;
+  }
+
+  if (items.length === 0 && lastError) {
+    throw lastError;
+  }
+
+  return {
+    items: items.sort((a, b) => a.index - b.index),
+    diagnostics: { failed: pending.map((item) => item.index), issues, requests },
+    summary,
+  };
+}
@@ -0,0 +1,59 @@
+import type { CompletionRequest, LLMProvider } from './index';
+import { LLMError } from './errors';
+
+export const MOCK_DEFAULT_MODEL = 'mock';
+
+// Tidy a line the way a (very conservative) editor would
+function mockOptimize(content: string): string {
+  const tidied = content.replace(/[ \t]+/g, ' ').trim();
+  return tidied.charAt(0).toUpperCase() + tidied.slice(1);
+}
+
+/**
+ * Deterministic in-process provider for tests and offline development.
+ * It never looks at the prompt, only at the subtitles it was asked about.
+ * Passing `mock-auth`, `mock-quota` or `mock-malformed` as the API key
+ * simulates the matching failure, `mock-partial` leaves out every third
+ * line of the first response.
+ */
+export function createMockProvider(apiKey?: string): LLMProvider {
+  let requests = 0;
+  return {
+    name: 'mock',
+    async complete({
+      task,
+      subtitles,
+      targetLanguage,
+      summary,
+    }: CompletionRequest): Promise<string> {
+      if (apiKey === 'mock-auth') {
+        throw new LLMError('auth', 'Mock provider rejected the API key');
+      }
+      if (apiKey === 'mock-quota') {
+        throw new LLMError('quota', 'Mock provider quota exceeded');
+      }
+      if (apiKey === 'mock-malformed') {
+        return 'Sure! Here are your subtitles.';
+      }
+
+      requests++;
+      const answered =
+        apiKey === 'mock-partial' && requests === 1
+          ? subtitles.filter((_, i) => i % 3 !== 2)
+          : subtitles;
+      const items = answered.map(({ index, content }) => ({
+        index,
+        content:
+          task === 'translate'
+            ? `[${targetLanguage}] ${content}`
+            : mockOptimize(content),
+      }));
+      return JSON.stringify({
+        subtitles: items,
+        ...(summary
+          ? { summary: `Mock summary, last seen line ${subtitles[subtitles.length - 1]?.index}` }
+          : {}),
+      });
+    },
+  };
+}
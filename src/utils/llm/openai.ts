@@ -0,0 +1,92 @@
+import type { CompletionRequest, LLMProvider } from './index';
+import { LLMError, errorCodeFromStatus, parseRetryAfter } from './errors';
+import { subtitleItemsSchema } from './items';
+
+export const OPENAI_DEFAULT_MODEL = 'gpt-4o-mini';
+export const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API
+ * (OpenAI itself, vLLM, llama.cpp, Ollama, LM Studio...).
+ */
+export function createOpenAIProvider(
+  apiKey: string | undefined,
+  baseUrl: string = OPENAI_DEFAULT_BASE_URL
+): LLMProvider {
+  let endpoint: URL;
+  try {
+    endpoint = new URL(`${baseUrl.replace(/\/+$/, '')}/chat/completions`);
+  } catch {
+    throw new LLMError('invalid_request', 'Invalid base URL');
+  }
+  if (endpoint.protocol !== 'https:' && endpoint.protocol !== 'http:') {
+    throw new LLMError('invalid_request', 'Base URL must use http or https');
+  }
+
+  return {
+    name: 'openai',
+    async complete({ prompt, model, summary }: CompletionRequest): Promise<string> {
+      const send = (structured: boolean) =>
+        fetch(endpoint, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model,
+            messages: [{ role: 'user', content: prompt }],
+            temperature: 0.2,
+            ...(structured
+              ? {
+                  response_format: {
+                    type: 'json_schema',
+                    json_schema: {
+                      name: 'subtitles',
+                      strict: true,
+                      schema: subtitleItemsSchema(summary),
+                    },
+                  },
+                }
+              : {}),
+          }),
+        });
+
+      let response: Response;
+      try {
+        response = await send(true);
+        // Servers without structured output reject the schema, the prompt
+        // describes the same format
+        if (response.status === 400 || response.status === 422) {
+          response = await send(false);
+        }
+      } catch (error) {
+        throw new LLMError(
+          'upstream',
+          `Could not reach ${endpoint.origin}: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`
+        );
+      }
+
+      // The body of the upstream answer is not passed on to the caller
+      if (!response.ok) {
+        throw new LLMError(
+          errorCodeFromStatus(response.status),
+          `OpenAI-compatible request failed (${response.status})`,
+          parseRetryAfter(response.headers.get('Retry-After'))
+        );
+      }
+
+      const data = await response.json().catch(() => null);
+      const content = data?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new LLMError(
+          'malformed_output',
+          'Response did not contain a chat completion'
+        );
+      }
+      return content.trim();
+    },
+  };
+}
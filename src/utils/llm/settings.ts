@@ -0,0 +1,56 @@
+import type { LLMProviderName, LLMRequestOptions } from '../../types/gemini';
+
+// Browser-side storage of the AI provider settings. The API key keeps its
+// original storage key so keys saved before providers existed still work.
+const STORAGE_KEYS = {
+  apiKey: 'gemini_api_key',
+  provider: 'llm_provider',
+  model: 'llm_model',
+  baseUrl: 'llm_base_url',
+} as const;
+
+export const getLLMSettings = (): LLMRequestOptions => {
+  const provider = (localStorage.getItem(STORAGE_KEYS.provider) ||
+    'gemini') as LLMProviderName;
+  return {
+    provider,
+    apiKey: localStorage.getItem(STORAGE_KEYS.apiKey) || undefined,
+    model: localStorage.getItem(STORAGE_KEYS.model) || undefined,
+    baseUrl:
+      provider === 'openai'
+        ? localStorage.getItem(STORAGE_KEYS.baseUrl) || undefined
+        : undefined,
+  };
+};
+
+export const saveLLMSettings = (settings: LLMRequestOptions): void => {
+  const entries: [string, string | undefined][] = [
+    [STORAGE_KEYS.provider, settings.provider],
+    [STORAGE_KEYS.apiKey, settings.apiKey],
+    [STORAGE_KEYS.model, settings.model],
+    [STORAGE_KEYS.baseUrl, settings.baseUrl],
+  ];
+  for (const [key, value] of entries) {
+    if (value) {
+      localStorage.setItem(key, value);
+    } else {
+      localStorage.removeItem(key);
+    }
+  }
+};
+
+export const clearLLMApiKey = (): void => {
+  localStorage.removeItem(STORAGE_KEYS.apiKey);
+};
+
+// Whether the settings are complete enough to send a request
+export const hasLLMCredentials = (settings: LLMRequestOptions): boolean => {
+  switch (settings.provider) {
+    case 'mock':
+      return true;
+    case 'openai':
+      return Boolean(settings.apiKey || settings.baseUrl);
+    default:
+      return Boolean(settings.apiKey);
+  }
+};
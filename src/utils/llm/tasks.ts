@@ -0,0 +1,323 @@
+import type {
+  GlossaryEntry,
+  OptimizeContext,
+  OutputDiagnostics,
+  SubtitleItem,
+} from '../../types/gemini';
+import type { LLMProvider } from './index';
+import { requestSubtitleItems } from './items';
+import { restoreLeadingMarkup } from '../markup';
+import { glossaryPrompt, relevantGlossary } from '../glossary';
+import { AUTO_DETECT, getLanguageName } from '../languages';
+import { sdhPrompt } from '../sdh';
+
+/**
+ * The translate and optimize tasks: prompts, and the checks and cleanup of
+ * what comes back. Shared by /api/translate and /api/aioptimize, which get
+ * one batch from the editor, and by /api/v1, which batches whole files.
+ */
+
+// Lines per model request, the editor batches files the same way
+export const MAX_SUBTITLES_PER_REQUEST = 50;
+
+// Prompt for one request, the whole batch or the lines to ask again for
+function buildTranslatePrompt(
+  subtitles: SubtitleItem[],
+  sourceLanguage: string,
+  targetLanguage: string,
+  glossary: GlossaryEntry[]
+): string {
+  const sourceDescription =
+    sourceLanguage === AUTO_DETECT
+      ? 'the language they are written in (detect it)'
+      : getLanguageName(sourceLanguage);
+
+  // Only the terms used in this batch, the full list can be long
+  const terms = glossaryPrompt(
+    relevantGlossary(
+      glossary,
+      subtitles.map((sub) => sub.content)
+    )
+  );
+  // Sound cues and speaker labels follow the target language's conventions
+  const annotations = sdhPrompt(
+    subtitles.map((sub) => sub.content),
+    getLanguageName(targetLanguage)
+  );
+
+  return `You are a professional subtitle translator.
+
+TASK: Translate the provided subtitles from ${sourceDescription} to ${getLanguageName(
+    targetLanguage
+  )}.
+
+IMPORTANT RULES:
+- Translate EVERY subtitle, do not skip, merge or split any of them
+- Keep the same index for each subtitle
+- Preserve line breaks inside a subtitle where possible
+- Keep subtitle length appropriate for timing
+- Use the surrounding subtitles as context for consistent names and tone
+- Do not add notes, explanations or transliterations
+- Keep inline formatting tags (<i>, <b>, <u>, <s>, <font color="...">) around the corresponding words, and copy blocks in curly braces such as {\\an8} unchanged
+${terms ? `\n${terms}\n` : ''}${annotations ? `\n${annotations}\n` : ''}
+OUTPUT FORMAT:
+Return ONLY a valid JSON object with this EXACT format, no additional text or explanation:
+{
+  "subtitles": [
+    {"index": 1, "content": "translated subtitle text"},
+    {"index": 2, "content": "translated subtitle text"}
+  ]
+}
+
+Subtitles to translate:
+${JSON.stringify(subtitles, null, 2)}`;
+}
+
+/**
+ * Translate a single batch, returning translations keyed by subtitle index.
+ * Lines the model still got wrong after asking again are left out and
+ * listed in the diagnostics.
+ */
+export async function translateSubtitles(
+  provider: LLMProvider,
+  model: string,
+  subtitles: SubtitleItem[],
+  sourceLanguage: string,
+  targetLanguage: string,
+  glossary: GlossaryEntry[] = []
+): Promise<{ translations: Record<number, string>; diagnostics: OutputDiagnostics }> {
+  const { items, diagnostics } = await requestSubtitleItems(subtitles, (batch) =>
+    provider.complete({
+      task: 'translate',
+      prompt: buildTranslatePrompt(batch, sourceLanguage, targetLanguage, glossary),
+      model,
+      subtitles: batch,
+      targetLanguage,
+    })
+  );
+
+  // Model output goes through the same markup whitelist as uploads
+  const sources = new Map(subtitles.map((sub) => [sub.index, sub.content]));
+  const translations: Record<number, string> = {};
+  for (const item of items) {
+    translations[item.index] = restoreLeadingMarkup(sources.get(item.index) ?? '', item.content);
+  }
+
+  return { translations, diagnostics };
+}
+
+// Read-only lines on each side of a batch, and the longest summary kept
+const MAX_CONTEXT_LINES = 10;
+const MAX_SUMMARY_LENGTH = 1500;
+
+export type BatchContext = Required<Pick<OptimizeContext, 'before' | 'after'>> & OptimizeContext;
+
+// Keep the context lines and summary that are well formed, dropping the rest
+export function normalizeContext(value: unknown): BatchContext {
+  const context = (value ?? {}) as OptimizeContext;
+  const lines = (items: unknown, keep: 'first' | 'last') => {
+    const valid = (Array.isArray(items) ? items : []).filter(
+      (item): item is SubtitleItem =>
+        Number.isInteger(item?.index) && typeof item?.content === 'string'
+    );
+    return keep === 'first' ? valid.slice(0, MAX_CONTEXT_LINES) : valid.slice(-MAX_CONTEXT_LINES);
+  };
+  return {
+    before: lines(context.before, 'last'),
+    after: lines(context.after, 'first'),
+    summary:
+      typeof context.summary === 'string' && context.summary.trim()
+        ? context.summary.trim().slice(0, MAX_SUMMARY_LENGTH)
+        : undefined,
+  };
+}
+
+const formatLines = (lines: SubtitleItem[]): string =>
+  lines.map((line) => `${line.index}: ${line.content.replace(/\n/g, ' / ')}`).join('\n');
+
+// Prompt for one request, the whole batch or the lines to ask again for
+function buildOptimizePrompt(
+  subtitles: SubtitleItem[],
+  glossary: GlossaryEntry[],
+  context: BatchContext
+): string {
+  // Build context from all subtitles for better optimization
+  const contextSummary =
+    subtitles.length > 10
+      ? `Processing ${subtitles.length} subtitles from index ${
+          subtitles[0].index
+        } to ${subtitles[subtitles.length - 1].index}.`
+      : '';
+
+  // What the file is about and the lines around this batch, never edited
+  const surroundings = [
+    context.summary &&
+      `SUMMARY OF THE SUBTITLES SO FAR (topic, characters, register):\n${context.summary}`,
+    context.before.length > 0 &&
+      `PRECEDING SUBTITLES (read-only context, do NOT return them):\n${formatLines(context.before)}`,
+    context.after.length > 0 &&
+      `FOLLOWING SUBTITLES (read-only context, do NOT return them):\n${formatLines(context.after)}`,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  // The text is already translated, so every term applies to it
+  const terms = glossaryPrompt(glossary);
+  const annotations = sdhPrompt(subtitles.map((sub) => sub.content));
+
+  return `You are a professional subtitle editor with expertise in multiple languages.
+
+TASK: Optimize the provided subtitles by following these steps:
+
+STEP 1 - CONTEXT ANALYSIS:
+First, analyze ALL the provided subtitles to understand:
+- The language being used
+- The overall context and topic
+- The tone and style
+- The narrative flow
+- Any recurring themes or technical terms
+
+${contextSummary}
+${surroundings ? `\n${surroundings}\n\nUse the summary and the surrounding subtitles to keep names, tone and sentences running across them consistent.\n` : ''}
+STEP 2 - OPTIMIZATION:
+Using the context you've built, optimize each subtitle by:
+1. Fixing grammar and spelling errors
+2. Improving sentence structure and clarity
+3. Maintaining the original meaning and intent
+4. Ensuring natural flow between subtitles, you can rephrase for better coherence
+5. Respecting cultural and linguistic nuances
+
+IMPORTANT RULES:
+- Keep the SAME LANGUAGE as the input (do not translate)
+- Return EVERY subtitle exactly once with its index, do not skip, merge or split any of them, return unchanged ones as they are
+- Preserve the original meaning completely
+- Maintain natural flow between subtitles
+- Keep subtitle length appropriate for timing
+- Use context to ensure consistency across all subtitles
+- Respect cultural and linguistic nuances
+- Keep inline formatting tags (<i>, <b>, <u>, <s>, <font color="...">) around the corresponding words, and copy blocks in curly braces such as {\\an8} unchanged
+${terms ? `\n${terms}\n` : ''}${annotations ? `\n${annotations}\n` : ''}
+OUTPUT FORMAT:
+Return ONLY a valid JSON object with this EXACT format, no additional text or explanation:
+{
+  "subtitles": [
+    {"index": 1, "content": "optimized subtitle text"},
+    {"index": 2, "content": "optimized subtitle text"}
+  ],
+  "summary": "updated summary"
+}
+
+"summary" is the summary above updated with these subtitles, or a new one if there is none: the topic, the characters and how they speak to each other, and the register, in at most 100 words.
+
+Subtitles to optimize:
+${JSON.stringify(subtitles, null, 2)}`;
+}
+
+/**
+ * Optimize a single batch, see optimizeFile for whole files. Lines the model
+ * still got wrong after asking again are passed through unchanged and
+ * listed in the diagnostics.
+ */
+export async function optimizeSubtitles(
+  provider: LLMProvider,
+  model: string,
+  subtitles: SubtitleItem[],
+  glossary: GlossaryEntry[] = [],
+  context = normalizeContext(undefined)
+): Promise<{ optimized: SubtitleItem[]; diagnostics: OutputDiagnostics; summary?: string }> {
+  // Context lines are outside the requested indices, so reconciliation drops
+  // any edit the model makes to them
+  const { items, diagnostics, summary } = await requestSubtitleItems(subtitles, (batch) =>
+    provider.complete({
+      task: 'optimize',
+      prompt: buildOptimizePrompt(batch, glossary, context),
+      model,
+      subtitles: batch,
+      summary: true,
+    })
+  );
+
+  // Model output goes through the same markup whitelist as uploads
+  const results = new Map(items.map((item) => [item.index, item.content]));
+  const optimized = subtitles.map((sub) => {
+    const content = results.get(sub.index);
+    return {
+      index: sub.index,
+      content:
+        content === undefined ? sub.content : restoreLeadingMarkup(sub.content, content),
+    };
+  });
+  return {
+    optimized,
+    diagnostics,
+    summary: summary?.slice(0, MAX_SUMMARY_LENGTH) ?? context.summary,
+  };
+}
+
+// Read-only lines on each side of the batches of a whole file, as the
+// editor sends them
+const FILE_CONTEXT_LINES = 5;
+
+const nonEmpty = (subtitles: SubtitleItem[]): SubtitleItem[] =>
+  subtitles.filter((sub) => sub.content.trim().length > 0);
+
+/**
+ * Translate every line of a file, one batch after the other. Empty lines
+ * are skipped. An error fails the whole file, lines the model got wrong are
+ * left out and listed in `failed`.
+ */
+export async function translateFile(
+  provider: LLMProvider,
+  model: string,
+  subtitles: SubtitleItem[],
+  sourceLanguage: string,
+  targetLanguage: string,
+  glossary: GlossaryEntry[] = []
+): Promise<{ translations: Record<number, string>; failed: number[] }> {
+  const lines = nonEmpty(subtitles);
+  const translations: Record<number, string> = {};
+  const failed: number[] = [];
+  for (let i = 0; i < lines.length; i += MAX_SUBTITLES_PER_REQUEST) {
+    const result = await translateSubtitles(
+      provider,
+      model,
+      lines.slice(i, i + MAX_SUBTITLES_PER_REQUEST),
+      sourceLanguage,
+      targetLanguage,
+      glossary
+    );
+    Object.assign(translations, result.translations);
+    failed.push(...result.diagnostics.failed);
+  }
+  return { translations, failed };
+}
+
+/**
+ * Optimize every line of a file, one batch after the other so each one is
+ * sent with the optimized end of the previous batch and the summary so far.
+ * Empty lines are skipped, lines the model got wrong come back unchanged
+ * and are listed in `failed`.
+ */
+export async function optimizeFile(
+  provider: LLMProvider,
+  model: string,
+  subtitles: SubtitleItem[],
+  glossary: GlossaryEntry[] = []
+): Promise<{ optimized: SubtitleItem[]; failed: number[]; summary?: string }> {
+  const lines = nonEmpty(subtitles);
+  const optimized: SubtitleItem[] = [];
+  const failed: number[] = [];
+  let summary: string | undefined;
+  for (let i = 0; i < lines.length; i += MAX_SUBTITLES_PER_REQUEST) {
+    const next = i + MAX_SUBTITLES_PER_REQUEST;
+    const result = await optimizeSubtitles(provider, model, lines.slice(i, next), glossary, {
+      before: optimized.slice(-FILE_CONTEXT_LINES),
+      after: lines.slice(next, next + FILE_CONTEXT_LINES),
+      summary,
+    });
+    optimized.push(...result.optimized);
+    failed.push(...result.diagnostics.failed);
+    summary = result.summary;
+  }
+  return { optimized, failed, summary };
+}
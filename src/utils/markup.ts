@@ -0,0 +1,450 @@
+/**
+ * Inline subtitle markup.
+ *
+ * Captions are stored in a canonical, whitelisted markup: `<i>`, `<b>`, `<u>`,
+ * `<s>`, `<font color="#rrggbb">`, `{\anN}` positioning and opaque ASS
+ * override blocks such as `{\pos(400,570)}`. Anything else is dropped when the
+ * text is tokenized, which is what keeps user and model supplied markup safe.
+ * Each output format gets its own serialization of the same tokens.
+ */
+
+export type StyleTag = 'i' | 'b' | 'u' | 's' | 'font';
+
+export type MarkupToken =
+  | { type: 'text'; value: string }
+  | { type: 'newline' }
+  | { type: 'open'; tag: StyleTag; color?: string }
+  | { type: 'close'; tag: StyleTag }
+  | { type: 'align'; value: number }
+  | { type: 'override'; value: string };
+
+export type MarkupTarget =
+  | 'canonical'
+  | 'srt'
+  | 'vtt'
+  | 'ass'
+  | 'ssa'
+  | 'plain';
+
+const SIMPLE_TAGS: StyleTag[] = ['i', 'b', 'u', 's'];
+
+const NAMED_COLORS: Record<string, string> = {
+  white: '#ffffff',
+  black: '#000000',
+  red: '#ff0000',
+  green: '#00ff00',
+  blue: '#0000ff',
+  yellow: '#ffff00',
+  cyan: '#00ffff',
+  magenta: '#ff00ff',
+};
+
+// Legacy SSA \a values to numpad-style \an values
+const SSA_TO_AN: Record<number, number> = {
+  1: 1, 2: 2, 3: 3, 5: 7, 6: 8, 7: 9, 9: 4, 10: 5, 11: 6,
+};
+export const AN_TO_SSA: Record<number, number> = {
+  1: 1, 2: 2, 3: 3, 4: 9, 5: 10, 6: 11, 7: 5, 8: 6, 9: 7,
+};
+
+// Normalize a color to #rrggbb, or undefined when it is not a safe value
+function normalizeColor(color: string): string | undefined {
+  const value = color.trim().toLowerCase();
+  if (/^#[0-9a-f]{6}$/.test(value)) return value;
+  if (/^#[0-9a-f]{3}$/.test(value)) {
+    return '#' + [...value.slice(1)].map((c) => c + c).join('');
+  }
+  return NAMED_COLORS[value];
+}
+
+// ASS colors are &H[AA]BBGGRR&
+function assColorToHex(value: string): string | undefined {
+  const match = value.match(/&H([0-9a-f]{1,8})&?/i);
+  if (!match) return undefined;
+  const bgr = match[1].padStart(6, '0').slice(-6);
+  return `#${bgr.slice(4, 6)}${bgr.slice(2, 4)}${bgr.slice(0, 2)}`.toLowerCase();
+}
+
+function hexToAssColor(hex: string): string {
+  return `&H${hex.slice(5, 7)}${hex.slice(3, 5)}${hex.slice(1, 3)}&`.toUpperCase();
+}
+
+// Plain text never carries angle brackets, they were the XSS vector
+function pushText(tokens: MarkupToken[], value: string) {
+  const lines = value.replace(/[<>]/g, '').split(/\r?\n/);
+  lines.forEach((line, i) => {
+    if (i > 0) tokens.push({ type: 'newline' });
+    if (line) tokens.push({ type: 'text', value: line });
+  });
+}
+
+/**
+ * Split the body of an ASS override block (`\an8\i1\pos(1,2)`) into tokens.
+ * Tags with a canonical equivalent are converted, the rest stay opaque.
+ */
+function parseOverrideBlock(body: string, tokens: MarkupToken[]) {
+  const opaque: string[] = [];
+  const tags = body.match(/\\[^\\(]*(?:\([^)]*\))?/g) || [];
+
+  for (const tag of tags) {
+    let match: RegExpMatchArray | null;
+    if ((match = tag.match(/^\\([ibus])(\d*)$/))) {
+      const name = match[1] as StyleTag;
+      const on = match[2] !== '' && match[2] !== '0';
+      tokens.push(on ? { type: 'open', tag: name } : { type: 'close', tag: name });
+    } else if ((match = tag.match(/^\\1?c(&H[0-9a-fA-F]+&?)?$/))) {
+      const color = match[1] ? assColorToHex(match[1]) : undefined;
+      tokens.push(
+        color ? { type: 'open', tag: 'font', color } : { type: 'close', tag: 'font' }
+      );
+    } else if ((match = tag.match(/^\\an([1-9])$/))) {
+      tokens.push({ type: 'align', value: Number(match[1]) });
+    } else if ((match = tag.match(/^\\a(\d+)$/)) && SSA_TO_AN[Number(match[1])]) {
+      tokens.push({ type: 'align', value: SSA_TO_AN[Number(match[1])] });
+    } else if (tag.trim()) {
+      opaque.push(tag);
+    }
+  }
+
+  if (opaque.length > 0) {
+    tokens.push({ type: 'override', value: opaque.join('') });
+  }
+}
+
+function parseBraceBlock(body: string, tokens: MarkupToken[]) {
+  if (body.startsWith('\\')) {
+    parseOverrideBlock(body, tokens);
+  } else if (body.trim()) {
+    tokens.push({ type: 'override', value: body.replace(/[<>]/g, '') });
+  }
+}
+
+/**
+ * Tokenize SRT/VTT/canonical text: HTML-like tags plus `{...}` blocks, which
+ * are override tags when they start with a backslash and comments otherwise.
+ */
+export function tokenizeMarkup(content: string): MarkupToken[] {
+  const tokens: MarkupToken[] = [];
+  const pattern = /<(\/?)([a-zA-Z]+)([^<>]*)>|\{([^{}]*)\}/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(content))) {
+    pushText(tokens, content.slice(lastIndex, match.index));
+    lastIndex = pattern.lastIndex;
+
+    if (match[4] !== undefined) {
+      parseBraceBlock(match[4], tokens);
+      continue;
+    }
+
+    const closing = match[1] === '/';
+    const tag = match[2].toLowerCase();
+    if (SIMPLE_TAGS.includes(tag as StyleTag)) {
+      tokens.push({ type: closing ? 'close' : 'open', tag: tag as StyleTag });
+    } else if (tag === 'font') {
+      if (closing) {
+        tokens.push({ type: 'close', tag: 'font' });
+      } else {
+        const colorMatch = match[3].match(/color\s*=\s*["']?([#\w]+)["']?/i);
+        const color = colorMatch ? normalizeColor(colorMatch[1]) : undefined;
+        // A font tag without a usable color still needs its closing tag to pair
+        tokens.push({ type: 'open', tag: 'font', color });
+      }
+    }
+    // Every other tag (script, span, VTT voice/class tags...) is dropped
+  }
+  pushText(tokens, content.slice(lastIndex));
+
+  return tokens;
+}
+
+/**
+ * Tokenize ASS/SSA dialogue text: override blocks, `\N` line breaks and
+ * `\h` hard spaces. Braces without a backslash are comments and kept opaque.
+ */
+export function tokenizeASSMarkup(content: string): MarkupToken[] {
+  const tokens: MarkupToken[] = [];
+  const pattern = /\{([^{}]*)\}/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  const pushASSText = (value: string) =>
+    pushText(
+      tokens,
+      value.replace(/\\[Nn]/g, '\n').replace(/\\h/g, '\u00a0')
+    );
+
+  while ((match = pattern.exec(content))) {
+    pushASSText(content.slice(lastIndex, match.index));
+    lastIndex = pattern.lastIndex;
+
+    parseBraceBlock(match[1], tokens);
+  }
+  pushASSText(content.slice(lastIndex));
+
+  return tokens;
+}
+
+function serializeHTMLTag(token: MarkupToken): string {
+  if (token.type === 'open') {
+    if (token.tag !== 'font') return `<${token.tag}>`;
+    return token.color ? `<font color="${token.color}">` : '<font>';
+  }
+  if (token.type === 'close') return `</${token.tag}>`;
+  return '';
+}
+
+/**
+ * Serialize tokens for an output format. HTML-like targets get balanced tags:
+ * stray closing tags are dropped and unclosed ones closed at the end.
+ */
+export function serializeMarkup(
+  tokens: MarkupToken[],
+  target: MarkupTarget
+): string {
+  const isASS = target === 'ass' || target === 'ssa';
+  const allowedTags: StyleTag[] =
+    target === 'vtt' ? ['i', 'b', 'u'] : [...SIMPLE_TAGS, 'font'];
+  const open: StyleTag[] = [];
+  let output = '';
+  let assBlock = '';
+
+  const flushASSBlock = () => {
+    if (assBlock) output += `{${assBlock}}`;
+    assBlock = '';
+  };
+
+  for (const token of tokens) {
+    if (isASS) {
+      switch (token.type) {
+        case 'text':
+          flushASSBlock();
+          output += token.value.replace(/\u00a0/g, '\\h');
+          break;
+        case 'newline':
+          flushASSBlock();
+          output += '\\N';
+          break;
+        case 'open':
+          if (token.tag === 'font') {
+            if (token.color) assBlock += `\\c${hexToAssColor(token.color)}`;
+          } else {
+            assBlock += `\\${token.tag}1`;
+          }
+          break;
+        case 'close':
+          assBlock += token.tag === 'font' ? '\\c' : `\\${token.tag}0`;
+          break;
+        case 'align':
+          assBlock +=
+            target === 'ssa'
+              ? `\\a${AN_TO_SSA[token.value]}`
+              : `\\an${token.value}`;
+          break;
+        case 'override':
+          if (token.value.startsWith('\\')) {
+            assBlock += token.value;
+          } else {
+            flushASSBlock();
+            output += `{${token.value}}`;
+          }
+          break;
+      }
+      continue;
+    }
+
+    switch (token.type) {
+      case 'text':
+        output += token.value;
+        break;
+      case 'newline':
+        output += '\n';
+        break;
+      case 'open':
+        if (target !== 'plain' && allowedTags.includes(token.tag)) {
+          open.push(token.tag);
+          output += serializeHTMLTag(token);
+        }
+        break;
+      case 'close': {
+        const position = open.lastIndexOf(token.tag);
+        if (position === -1) break;
+        // Close anything opened inside it first so the nesting stays valid
+        while (open.length > position) {
+          output += `</${open.pop()}>`;
+        }
+        break;
+      }
+      case 'align':
+        if (target === 'canonical' || target === 'srt') {
+          output += `{\\an${token.value}}`;
+        }
+        break;
+      case 'override':
+        if (target === 'canonical') {
+          output += `{${token.value}}`;
+        }
+        break;
+    }
+  }
+
+  if (isASS) {
+    flushASSBlock();
+  } else {
+    while (open.length > 0) {
+      output += `</${open.pop()}>`;
+    }
+  }
+
+  return output.trim();
+}
+
+/**
+ * Reduce any markup to the canonical whitelist. Used on every text that
+ * enters the app: uploads, edits sent for download and model output.
+ */
+export function sanitizeMarkup(content: string): string {
+  return serializeMarkup(tokenizeMarkup(content), 'canonical');
+}
+
+export function stripMarkup(content: string): string {
+  return serializeMarkup(tokenizeMarkup(content), 'plain');
+}
+
+// Convert canonical markup to the markup of an output format
+export function convertMarkup(content: string, target: MarkupTarget): string {
+  return serializeMarkup(tokenizeMarkup(content), target);
+}
+
+// The numpad position of a caption ({\an8} is top center), if it has one
+export function getAlignment(content: string): number | undefined {
+  const align = tokenizeMarkup(content).find((token) => token.type === 'align');
+  return align?.type === 'align' ? align.value : undefined;
+}
+
+// Drop {\anN} blocks, for captions positioned by something else
+export function removeAlignment(content: string): string {
+  return serializeMarkup(
+    tokenizeMarkup(content).filter((token) => token.type !== 'align'),
+    'canonical'
+  );
+}
+
+/**
+ * Models tend to drop positioning blocks. Put the source's leading
+ * alignment and override blocks back when the output lost them.
+ */
+export function restoreLeadingMarkup(source: string, output: string): string {
+  const sourceTokens = tokenizeMarkup(source);
+  const outputTokens = tokenizeMarkup(output);
+  const leading: MarkupToken[] = [];
+  for (const token of sourceTokens) {
+    if (token.type !== 'align' && token.type !== 'override') break;
+    const present = outputTokens.some(
+      (candidate) =>
+        candidate.type === token.type &&
+        ('value' in candidate ? candidate.value : null) === token.value
+    );
+    if (!present) leading.push(token);
+  }
+  return serializeMarkup([...leading, ...outputTokens], 'canonical');
+}
+
+// Drop tags with nothing between them, e.g. left over from removed text
+export const dropEmptyTags = (content: string): string =>
+  content.replace(/<(\w+)[^<>]*><\/\1>/g, '');
+
+/**
+ * Split canonical markup at a position of the raw text, e.g. the cursor in
+ * the editor. Tags open at that point are closed in the first part and
+ * opened again in the second, which also keeps the alignment.
+ */
+export function splitMarkup(content: string, at: number): [string, string] {
+  // A position inside a tag or block moves before it
+  for (const match of content.matchAll(/<[^<>]*>|\{[^{}]*\}/g)) {
+    if (match.index < at && at < match.index + match[0].length) at = match.index;
+  }
+  const open: MarkupToken[] = [];
+  let align: MarkupToken | undefined;
+  for (const token of tokenizeMarkup(content.slice(0, at))) {
+    if (token.type === 'open') {
+      open.push(token);
+    } else if (token.type === 'close') {
+      const position = open.map((candidate) => candidate.type === 'open' && candidate.tag).lastIndexOf(token.tag);
+      if (position !== -1) open.splice(position);
+    } else if (token.type === 'align') {
+      align = token;
+    }
+  }
+  // Tags left without text on either side of the split are dropped
+  return [
+    dropEmptyTags(sanitizeMarkup(content.slice(0, at))),
+    dropEmptyTags(
+      serializeMarkup(
+        [...(align ? [align] : []), ...open, ...tokenizeMarkup(content.slice(at))],
+        'canonical'
+      )
+    ),
+  ];
+}
+
+const escapeHTML = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Render canonical markup as HTML for read-only display in the editor.
+ * Text is escaped, only the whitelisted formatting becomes elements.
+ */
+export function toDisplayHTML(content: string): string {
+  const open: StyleTag[] = [];
+  let html = '';
+
+  for (const token of tokenizeMarkup(content)) {
+    switch (token.type) {
+      case 'text':
+        html += escapeHTML(token.value);
+        break;
+      case 'newline':
+        html += '<br>';
+        break;
+      case 'open':
+        open.push(token.tag);
+        html +=
+          token.tag === 'font'
+            ? `<span${token.color ? ` style="color: ${token.color}"` : ''}>`
+            : `<${token.tag}>`;
+        break;
+      case 'close': {
+        const position = open.lastIndexOf(token.tag);
+        if (position === -1) break;
+        while (open.length > position) {
+          const tag = open.pop();
+          html += tag === 'font' ? '</span>' : `</${tag}>`;
+        }
+        break;
+      }
+      case 'align':
+        html += `<span class="badge text-bg-secondary me-1" title="Position {\\an${token.value}}">${
+          token.value >= 7 ? 'top' : token.value >= 4 ? 'middle' : 'bottom'
+        }</span>`;
+        break;
+      case 'override':
+        html += `<code class="small text-muted me-1">${escapeHTML(
+          `{${token.value}}`
+        )}</code>`;
+        break;
+    }
+  }
+
+  while (open.length > 0) {
+    const tag = open.pop();
+    html += tag === 'font' ? '</span>' : `</${tag}>`;
+  }
+
+  return html;
+}
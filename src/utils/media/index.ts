@@ -0,0 +1,62 @@
+import type { TextTrack } from './tracks';
+import { serializeTrack } from './tracks';
+import { extractMatroskaTrack, listMatroskaTracks } from './mkv';
+import { extractMP4Track, listMP4Tracks } from './mp4';
+import { MediaError } from './reader';
+
+export type { TextTrack, TrackFormat } from './tracks';
+export { MediaError } from './reader';
+
+/**
+ * Text subtitle tracks embedded in video files. Everything runs in the
+ * browser, only the extracted subtitles are uploaded.
+ */
+
+export const MEDIA_EXTENSIONS = ['.mkv', '.webm', '.mp4', '.m4v', '.mov'];
+
+export const isMediaFilename = (name: string): boolean =>
+  MEDIA_EXTENSIONS.includes('.' + name.split('.').pop()?.toLowerCase());
+
+type Container = 'matroska' | 'mp4';
+
+// Sniffed from the first bytes, extensions are often wrong
+async function detectContainer(file: Blob): Promise<Container> {
+  const head = new Uint8Array(await file.slice(0, 12).arrayBuffer());
+  if (head[0] === 0x1a && head[1] === 0x45 && head[2] === 0xdf && head[3] === 0xa3) {
+    return 'matroska';
+  }
+  const type = String.fromCharCode(...head.subarray(4, 8));
+  if (['ftyp', 'moov', 'mdat', 'free', 'skip', 'wide', 'pnot'].includes(type)) {
+    return 'mp4';
+  }
+  throw new MediaError('Unsupported video file, use MKV, WebM, MP4 or MOV');
+}
+
+export async function listTextTracks(file: Blob): Promise<TextTrack[]> {
+  return (await detectContainer(file)) === 'matroska'
+    ? listMatroskaTracks(file)
+    : listMP4Tracks(file);
+}
+
+/**
+ * Extract a track as a subtitle file named after the video, e.g.
+ * "movie.eng.srt", ready for the regular upload.
+ */
+export async function extractTextTrack(
+  file: File,
+  trackId: number,
+  onProgress?: (progress: number) => void
+): Promise<File> {
+  const extract =
+    (await detectContainer(file)) === 'matroska' ? extractMatroskaTrack : extractMP4Track;
+  const { track, cues, header } = await extract(file, trackId, onProgress);
+  if (cues.length === 0) {
+    throw new MediaError('This track contains no text');
+  }
+
+  const base = file.name.replace(/\.[^.]+$/, '');
+  const name = `${base}${track.language ? `.${track.language}` : ''}.${track.format}`;
+  return new File([serializeTrack(track.format, cues, header)], name, {
+    type: 'text/plain',
+  });
+}
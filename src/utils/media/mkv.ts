@@ -0,0 +1,422 @@
+import type { TextCue, TextTrack, TrackFormat } from './tracks';
+import { closeOpenCues } from './tracks';
+import { BlobReader, MediaError, decodeUTF8, readUint } from './reader';
+
+/**
+ * Matroska and WebM text tracks. Only the segment header is parsed to list
+ * tracks, extraction walks the clusters and skips every block that belongs
+ * to another track. Blocks compressed with zlib or header stripping are
+ * decoded, other encodings are refused.
+ */
+
+const ID = {
+  EBML: 0x1a45dfa3,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimestampScale: 0x2ad7b1,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  DefaultDuration: 0x23e383,
+  Language: 0x22b59c,
+  LanguageBCP47: 0x22b59d,
+  Name: 0x536e,
+  FlagDefault: 0x88,
+  FlagForced: 0x55aa,
+  Cluster: 0x1f43b675,
+  Timestamp: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  BlockDuration: 0x9b,
+  ContentEncodings: 0x6d80,
+  ContentEncoding: 0x6240,
+  ContentEncodingOrder: 0x5031,
+  ContentEncodingScope: 0x5032,
+  ContentEncodingType: 0x5033,
+  ContentCompression: 0x5034,
+  ContentCompAlgo: 0x4254,
+  ContentCompSettings: 0x4255,
+} as const;
+
+// Elements that end a cluster of unknown size
+const TOP_LEVEL_IDS = new Set([
+  0x1f43b675, // Cluster
+  0x1c53bb6b, // Cues
+  0x1254c367, // Tags
+  0x1941a469, // Attachments
+  0x1043a770, // Chapters
+  0x114d9b74, // SeekHead
+]);
+
+const SUBTITLE_TRACK_TYPE = 0x11;
+
+const CODEC_FORMATS: Record<string, TrackFormat> = {
+  'S_TEXT/UTF8': 'srt',
+  'S_TEXT/ASCII': 'srt',
+  'S_TEXT/ASS': 'ass',
+  'S_TEXT/SSA': 'ssa',
+  'S_ASS': 'ass',
+  'S_SSA': 'ssa',
+  'S_TEXT/WEBVTT': 'vtt',
+  'D_WEBVTT/SUBTITLES': 'vtt',
+  'D_WEBVTT/CAPTIONS': 'vtt',
+};
+
+// ContentCompAlgo values
+const ZLIB = 0;
+const HEADER_STRIPPING = 3;
+
+// ContentEncodingScope bits
+const SCOPE_BLOCKS = 1;
+const SCOPE_PRIVATE = 2;
+
+// A compression or encryption applied to the blocks or codec data of a track
+interface ContentEncoding {
+  order: number;
+  scope: number;
+  encrypted: boolean;
+  algorithm: number;
+  // Bytes removed from the front of every frame by header stripping
+  settings?: Uint8Array;
+}
+
+interface MatroskaTrack extends TextTrack {
+  codecPrivate?: Uint8Array;
+  // Nanoseconds
+  defaultDuration?: number;
+  // In the order they are undone, highest ContentEncodingOrder first
+  encodings: ContentEncoding[];
+}
+
+interface MatroskaHeader {
+  // Nanoseconds per timestamp unit
+  timestampScale: number;
+  tracks: MatroskaTrack[];
+  firstCluster?: number;
+  segmentEnd: number;
+}
+
+interface Element {
+  id: number;
+  dataStart: number;
+  // Undefined for elements of unknown size (live streams)
+  size?: number;
+}
+
+// EBML variable length integer, the marker bit is kept for IDs
+function readVint(
+  bytes: Uint8Array,
+  offset: number,
+  keepMarker: boolean
+): { value: number; length: number; unknown: boolean } | null {
+  const first = bytes[offset];
+  if (first === undefined || first === 0) return null;
+  const length = Math.clz32(first) - 23;
+  if (offset + length > bytes.length) return null;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+    allOnes &&= bytes[offset + i] === 0xff;
+  }
+  return { value, length, unknown: !keepMarker && allOnes };
+}
+
+function parseElement(bytes: Uint8Array, offset: number, base: number): Element | null {
+  const id = readVint(bytes, offset, true);
+  if (!id) return null;
+  const size = readVint(bytes, offset + id.length, false);
+  if (!size) return null;
+  return {
+    id: id.value,
+    dataStart: base + offset + id.length + size.length,
+    size: size.unknown ? undefined : size.value,
+  };
+}
+
+async function readElement(reader: BlobReader, position: number): Promise<Element | null> {
+  if (position >= reader.size) return null;
+  return parseElement(await reader.bytes(position, 12), 0, position);
+}
+
+// Children of a master element that is already in memory
+function* children(bytes: Uint8Array): Generator<{ id: number; data: Uint8Array }> {
+  let offset = 0;
+  while (offset < bytes.length) {
+    const element = parseElement(bytes, offset, 0);
+    if (!element || element.size === undefined) return;
+    yield { id: element.id, data: bytes.subarray(element.dataStart, element.dataStart + element.size) };
+    offset = element.dataStart + element.size;
+  }
+}
+
+function parseContentEncoding(bytes: Uint8Array): ContentEncoding {
+  const encoding: ContentEncoding = { order: 0, scope: SCOPE_BLOCKS, encrypted: false, algorithm: ZLIB };
+  for (const { id, data } of children(bytes)) {
+    switch (id) {
+      case ID.ContentEncodingOrder: encoding.order = readUint(data); break;
+      case ID.ContentEncodingScope: encoding.scope = readUint(data); break;
+      case ID.ContentEncodingType: encoding.encrypted = readUint(data) !== 0; break;
+      case ID.ContentCompression:
+        for (const { id: setting, data: value } of children(data)) {
+          if (setting === ID.ContentCompAlgo) encoding.algorithm = readUint(value);
+          if (setting === ID.ContentCompSettings) encoding.settings = value.slice();
+        }
+        break;
+    }
+  }
+  return encoding;
+}
+
+function parseTrackEntry(bytes: Uint8Array): MatroskaTrack | undefined {
+  let number = 0;
+  let type = 0;
+  let codec = '';
+  const track: Partial<MatroskaTrack> = { isDefault: true, isForced: false, encodings: [] };
+
+  for (const { id, data } of children(bytes)) {
+    switch (id) {
+      case ID.TrackNumber: number = readUint(data); break;
+      case ID.TrackType: type = readUint(data); break;
+      case ID.CodecID: codec = decodeUTF8(data).replace(/\0+$/, ''); break;
+      case ID.CodecPrivate: track.codecPrivate = data.slice(); break;
+      case ID.DefaultDuration: track.defaultDuration = readUint(data); break;
+      case ID.Language: track.language ??= decodeUTF8(data).replace(/\0+$/, ''); break;
+      case ID.LanguageBCP47: track.language = decodeUTF8(data).replace(/\0+$/, ''); break;
+      case ID.Name: track.name = decodeUTF8(data).replace(/\0+$/, ''); break;
+      case ID.FlagDefault: track.isDefault = readUint(data) === 1; break;
+      case ID.FlagForced: track.isForced = readUint(data) === 1; break;
+      case ID.ContentEncodings:
+        for (const { id: child, data: encoding } of children(data)) {
+          if (child === ID.ContentEncoding) track.encodings!.push(parseContentEncoding(encoding));
+        }
+        break;
+    }
+  }
+  track.encodings!.sort((a, b) => b.order - a.order);
+
+  const format = CODEC_FORMATS[codec];
+  if (type !== SUBTITLE_TRACK_TYPE || !format) return undefined;
+  return { ...track, id: number, codec, format } as MatroskaTrack;
+}
+
+async function readHeader(reader: BlobReader): Promise<MatroskaHeader> {
+  const ebml = await readElement(reader, 0);
+  if (!ebml || ebml.id !== ID.EBML || ebml.size === undefined) {
+    throw new MediaError('Not a Matroska or WebM file');
+  }
+  const segment = await readElement(reader, ebml.dataStart + ebml.size);
+  if (!segment || segment.id !== ID.Segment) {
+    throw new MediaError('No segment found in the file');
+  }
+
+  const header: MatroskaHeader = {
+    timestampScale: 1_000_000,
+    tracks: [],
+    segmentEnd: segment.size === undefined ? reader.size : segment.dataStart + segment.size,
+  };
+  let foundTracks = false;
+  let position = segment.dataStart;
+
+  while (position < header.segmentEnd) {
+    const element = await readElement(reader, position);
+    if (!element) break;
+
+    if (element.id === ID.Cluster) {
+      header.firstCluster ??= position;
+      // Tracks come before the clusters in practice, no need to read on
+      if (foundTracks || element.size === undefined) break;
+    } else if (element.size === undefined) {
+      break;
+    } else if (element.id === ID.Info || element.id === ID.Tracks) {
+      const data = (await reader.bytes(element.dataStart, element.size)).slice();
+      if (element.id === ID.Info) {
+        for (const { id, data: value } of children(data)) {
+          if (id === ID.TimestampScale) header.timestampScale = readUint(value);
+        }
+      } else {
+        foundTracks = true;
+        for (const { id, data: entry } of children(data)) {
+          const track = id === ID.TrackEntry ? parseTrackEntry(entry) : undefined;
+          if (track) header.tracks.push(track);
+        }
+      }
+    }
+
+    if (element.size === undefined) break;
+    position = element.dataStart + element.size;
+  }
+
+  return header;
+}
+
+// The track without its codec data
+const listTrack = ({ codecPrivate, defaultDuration, encodings, ...track }: MatroskaTrack): TextTrack => track;
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Only zlib and header stripping are found on text tracks in practice
+function checkEncodings(track: MatroskaTrack): void {
+  for (const encoding of track.encodings) {
+    if (encoding.encrypted) {
+      throw new MediaError(`Track ${track.id} is encrypted`);
+    }
+    if (encoding.algorithm !== ZLIB && encoding.algorithm !== HEADER_STRIPPING) {
+      throw new MediaError(`Track ${track.id} uses a compression that is not supported`);
+    }
+  }
+}
+
+// Undo the encodings of a track that apply to `scope`
+async function decodeContent(data: Uint8Array, track: MatroskaTrack, scope: number): Promise<Uint8Array> {
+  let result = data;
+  for (const encoding of track.encodings) {
+    if (!(encoding.scope & scope)) continue;
+    if (encoding.algorithm === HEADER_STRIPPING) {
+      const settings = encoding.settings ?? new Uint8Array();
+      const joined = new Uint8Array(settings.length + result.length);
+      joined.set(settings);
+      joined.set(result, settings.length);
+      result = joined;
+    } else {
+      try {
+        result = await inflate(result);
+      } catch {
+        throw new MediaError(`Track ${track.id} has data that could not be decompressed`);
+      }
+    }
+  }
+  return result;
+}
+
+export async function listMatroskaTracks(file: Blob): Promise<TextTrack[]> {
+  const { tracks } = await readHeader(new BlobReader(file));
+  return tracks.map(listTrack);
+}
+
+// Track number, relative timestamp and payload of a (Simple)Block
+function parseBlock(bytes: Uint8Array): { track: number; timestamp: number; data: Uint8Array } | null {
+  const track = readVint(bytes, 0, false);
+  if (!track || bytes.length < track.length + 3) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset + track.length, 3);
+  // Lacing packs several frames in a block, text tracks don't use it
+  if (view.getUint8(2) & 0x06) return null;
+  return {
+    track: track.value,
+    timestamp: view.getInt16(0),
+    data: bytes.subarray(track.length + 3),
+  };
+}
+
+/**
+ * Read the cues of one track. `onProgress` gets the share of the file that
+ * was read, from 0 to 1.
+ */
+export async function extractMatroskaTrack(
+  file: Blob,
+  trackId: number,
+  onProgress?: (progress: number) => void
+): Promise<{ track: TextTrack; cues: TextCue[]; header: string }> {
+  const reader = new BlobReader(file);
+  const header = await readHeader(reader);
+  const track = header.tracks.find((candidate) => candidate.id === trackId);
+  if (!track) {
+    throw new MediaError(`Track ${trackId} is not a text track`);
+  }
+  checkEncodings(track);
+
+  const toMs = (value: number) => Math.round((value * header.timestampScale) / 1_000_000);
+  const cues: (Omit<TextCue, 'end'> & { end?: number })[] = [];
+
+  const addBlock = async (block: Uint8Array, clusterTime: number, duration?: number) => {
+    const parsed = parseBlock(block);
+    if (!parsed || parsed.track !== trackId) return;
+    const start = toMs(clusterTime + parsed.timestamp);
+    const data = await decodeContent(parsed.data, track, SCOPE_BLOCKS);
+    let text = decodeUTF8(data).replace(/\r\n/g, '\n').replace(/\0+$/, '');
+    let order: number | undefined;
+    if (track.format === 'ass' || track.format === 'ssa') {
+      // "ReadOrder,Layer,Style,...", the read order restores the file order
+      const comma = text.indexOf(',');
+      order = Number(text.slice(0, comma));
+      text = text.slice(comma + 1);
+    }
+    if (!text.trim()) return;
+    const end =
+      duration !== undefined
+        ? start + toMs(duration)
+        : track.defaultDuration
+          ? start + Math.round(track.defaultDuration / 1_000_000)
+          : undefined;
+    cues.push({ start, end, text, order });
+  };
+
+  let position = header.firstCluster ?? header.segmentEnd;
+  let lastReport = 0;
+  while (position < header.segmentEnd) {
+    const cluster = await readElement(reader, position);
+    if (!cluster) break;
+    if (cluster.id !== ID.Cluster) {
+      if (cluster.size === undefined) break;
+      position = cluster.dataStart + cluster.size;
+      continue;
+    }
+
+    const clusterEnd = cluster.size === undefined ? header.segmentEnd : cluster.dataStart + cluster.size;
+    let clusterTime = 0;
+    let child = cluster.dataStart;
+    while (child < clusterEnd) {
+      const element = await readElement(reader, child);
+      if (!element || element.size === undefined) break;
+      // The next cluster when this one has an unknown size
+      if (TOP_LEVEL_IDS.has(element.id)) break;
+
+      if (element.id === ID.Timestamp) {
+        clusterTime = readUint(await reader.bytes(element.dataStart, element.size));
+      } else if (element.id === ID.SimpleBlock) {
+        // Peek at the track number before reading the payload
+        const head = await reader.bytes(element.dataStart, Math.min(element.size, 8));
+        if (parseBlock(head)?.track === trackId) {
+          await addBlock((await reader.bytes(element.dataStart, element.size)).slice(), clusterTime);
+        }
+      } else if (element.id === ID.BlockGroup) {
+        const head = await reader.bytes(element.dataStart, Math.min(element.size, 16));
+        const first = parseElement(head, 0, 0);
+        const peek = first?.id === ID.Block ? parseBlock(head.subarray(first.dataStart)) : null;
+        // Only groups whose block belongs to the track are read whole
+        if (!first || first.id !== ID.Block || peek?.track === trackId) {
+          const group = (await reader.bytes(element.dataStart, element.size)).slice();
+          let block: Uint8Array | undefined;
+          let duration: number | undefined;
+          for (const { id, data } of children(group)) {
+            if (id === ID.Block) block = data;
+            if (id === ID.BlockDuration) duration = readUint(data);
+          }
+          if (block) await addBlock(block, clusterTime, duration);
+        }
+      }
+      child = element.dataStart + element.size;
+    }
+    position = child;
+
+    // Reporting every percent keeps the page responsive on long files
+    if (onProgress && position / reader.size - lastReport >= 0.01) {
+      lastReport = position / reader.size;
+      onProgress(lastReport);
+    }
+  }
+
+  return {
+    track: listTrack(track),
+    cues: closeOpenCues(cues),
+    header: track.codecPrivate ? decodeUTF8(await decodeContent(track.codecPrivate, track, SCOPE_PRIVATE)) : '',
+  };
+}
@@ -0,0 +1,251 @@
+import type { TextCue, TextTrack, TrackFormat } from './tracks';
+import { BlobReader, MediaError, decodeUTF8, readUint } from './reader';
+
+/**
+ * MP4 and QuickTime text tracks (3GPP timed text and WebVTT). Only the
+ * moov box is read, samples are then fetched from their offsets. Fragmented
+ * files, which keep their samples in moof boxes, are not supported.
+ */
+
+const SAMPLE_FORMATS: Record<string, TrackFormat> = {
+  tx3g: 'srt',
+  wvtt: 'vtt',
+};
+
+interface Box {
+  type: string;
+  // Offset of the payload, after the header
+  dataStart: number;
+  end: number;
+}
+
+interface MP4Track extends TextTrack {
+  timescale: number;
+  // Start, duration and file offset of every sample
+  samples: { start: number; duration: number; offset: number; size: number }[];
+}
+
+const boxType = (bytes: Uint8Array, offset: number): string =>
+  String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+function parseBox(bytes: Uint8Array, offset: number, base: number, limit: number): Box | null {
+  if (offset + 8 > bytes.length) return null;
+  let size = readUint(bytes, offset, 4);
+  const type = boxType(bytes, offset + 4);
+  let header = 8;
+  if (size === 1) {
+    if (offset + 16 > bytes.length) return null;
+    size = readUint(bytes, offset + 8, 8);
+    header = 16;
+  } else if (size === 0) {
+    size = limit - (base + offset);
+  }
+  if (size < header) return null;
+  return { type, dataStart: base + offset + header, end: base + offset + size };
+}
+
+// Child boxes of a box that is in memory, positions relative to `bytes`
+function children(bytes: Uint8Array, start = 0, end = bytes.length): Box[] {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset < end) {
+    const box = parseBox(bytes, offset, 0, end);
+    if (!box || box.end > end) break;
+    boxes.push(box);
+    offset = box.end;
+  }
+  return boxes;
+}
+
+const child = (bytes: Uint8Array, parent: Box | undefined, type: string): Box | undefined =>
+  parent && children(bytes, parent.dataStart, parent.end).find((box) => box.type === type);
+
+// Three letters packed in 5 bits each, as in the mdhd box
+function unpackLanguage(value: number): string {
+  return String.fromCharCode(
+    ((value >> 10) & 0x1f) + 0x60,
+    ((value >> 5) & 0x1f) + 0x60,
+    (value & 0x1f) + 0x60
+  );
+}
+
+// Top level boxes are walked to find moov, which may come after the media
+async function readMoov(reader: BlobReader): Promise<Uint8Array> {
+  let position = 0;
+  while (position < reader.size) {
+    const box = parseBox(await reader.bytes(position, 16), 0, position, reader.size);
+    if (!box) break;
+    if (position === 0 && !['ftyp', 'moov', 'mdat', 'free', 'skip', 'wide', 'pnot'].includes(box.type)) {
+      break;
+    }
+    if (box.type === 'moov') {
+      return (await reader.bytes(box.dataStart, box.end - box.dataStart)).slice();
+    }
+    position = box.end;
+  }
+  throw new MediaError('Not an MP4 or QuickTime file');
+}
+
+function parseTrack(moov: Uint8Array, trak: Box): MP4Track | undefined {
+  const mdia = child(moov, trak, 'mdia');
+  const minf = child(moov, mdia, 'minf');
+  const stbl = child(moov, minf, 'stbl');
+  const stsd = child(moov, stbl, 'stsd');
+  const tkhd = child(moov, trak, 'tkhd');
+  const mdhd = child(moov, mdia, 'mdhd');
+  if (!stsd || !tkhd || !mdhd) return undefined;
+
+  // First sample description, after version, flags and entry count
+  const entry = parseBox(moov, stsd.dataStart + 8, 0, stsd.end);
+  const format = entry && SAMPLE_FORMATS[entry.type];
+  if (!entry || !format) return undefined;
+
+  const tkhdVersion = moov[tkhd.dataStart];
+  const id = readUint(moov, tkhd.dataStart + (tkhdVersion === 1 ? 20 : 12), 4);
+  const flags = readUint(moov, tkhd.dataStart + 1, 3);
+
+  const mdhdVersion = moov[mdhd.dataStart];
+  const timescale = readUint(moov, mdhd.dataStart + (mdhdVersion === 1 ? 20 : 12), 4);
+  const packed = readUint(moov, mdhd.dataStart + (mdhdVersion === 1 ? 32 : 20), 2);
+  // The extended language box holds a BCP 47 tag
+  const elng = child(moov, mdia, 'elng');
+  const language = elng
+    ? decodeUTF8(moov.subarray(elng.dataStart + 4, elng.end)).replace(/\0+$/, '')
+    : unpackLanguage(packed);
+
+  return {
+    id,
+    codec: entry.type,
+    format,
+    language: language === 'und' ? undefined : language,
+    isDefault: (flags & 0x1) !== 0,
+    isForced: false,
+    timescale: timescale || 1000,
+    samples: stbl ? sampleTable(moov, stbl) : [],
+  };
+}
+
+// Where each sample is, from the stts, stsc, stsz and stco/co64 tables
+function sampleTable(moov: Uint8Array, stbl: Box): MP4Track['samples'] {
+  const stts = child(moov, stbl, 'stts');
+  const stsc = child(moov, stbl, 'stsc');
+  const stsz = child(moov, stbl, 'stsz');
+  const stco = child(moov, stbl, 'stco') ?? child(moov, stbl, 'co64');
+  if (!stts || !stsc || !stsz || !stco) return [];
+
+  const uint = (offset: number, length = 4) => readUint(moov, offset, length);
+
+  const times: { start: number; duration: number }[] = [];
+  let time = 0;
+  for (let i = 0, count = uint(stts.dataStart + 4); i < count; i++) {
+    const samples = uint(stts.dataStart + 8 + i * 8);
+    const delta = uint(stts.dataStart + 12 + i * 8);
+    for (let j = 0; j < samples; j++) {
+      times.push({ start: time, duration: delta });
+      time += delta;
+    }
+  }
+
+  const fixedSize = uint(stsz.dataStart + 4);
+  const sampleCount = uint(stsz.dataStart + 8);
+  const sizeOf = (i: number) => fixedSize || uint(stsz.dataStart + 12 + i * 4);
+
+  const is64 = stco.type === 'co64';
+  const chunkCount = uint(stco.dataStart + 4);
+  const chunkOffset = (i: number) =>
+    is64 ? uint(stco.dataStart + 8 + i * 8, 8) : uint(stco.dataStart + 8 + i * 4);
+
+  const runs = Array.from({ length: uint(stsc.dataStart + 4) }, (_, i) => ({
+    firstChunk: uint(stsc.dataStart + 8 + i * 12),
+    samplesPerChunk: uint(stsc.dataStart + 12 + i * 12),
+  }));
+
+  const samples: MP4Track['samples'] = [];
+  for (let chunk = 0; chunk < chunkCount && samples.length < sampleCount; chunk++) {
+    const run = [...runs].reverse().find((candidate) => candidate.firstChunk <= chunk + 1);
+    let offset = chunkOffset(chunk);
+    for (let i = 0; i < (run?.samplesPerChunk ?? 0) && samples.length < sampleCount; i++) {
+      const index = samples.length;
+      const size = sizeOf(index);
+      samples.push({ ...(times[index] ?? { start: time, duration: 0 }), offset, size });
+      offset += size;
+    }
+  }
+  return samples;
+}
+
+async function readTracks(reader: BlobReader): Promise<MP4Track[]> {
+  const moov = await readMoov(reader);
+  return children(moov)
+    .filter((box) => box.type === 'trak')
+    .map((trak) => parseTrack(moov, trak))
+    .filter((track): track is MP4Track => Boolean(track));
+}
+
+export async function listMP4Tracks(file: Blob): Promise<TextTrack[]> {
+  const tracks = await readTracks(new BlobReader(file));
+  return tracks.map(({ timescale, samples, ...track }) => track);
+}
+
+// 3GPP timed text: a 16-bit length, the text, then style boxes
+function decodeTx3g(sample: Uint8Array): string {
+  if (sample.length < 2) return '';
+  const text = sample.subarray(2, 2 + readUint(sample, 0, 2));
+  if (text[0] === 0xfe && text[1] === 0xff) {
+    return new TextDecoder('utf-16be').decode(text.subarray(2));
+  }
+  return decodeUTF8(text);
+}
+
+// WebVTT in MP4: vttc boxes with the payload (payl) and settings (sttg)
+function decodeWvtt(sample: Uint8Array): { text: string; settings?: string }[] {
+  return children(sample)
+    .filter((box) => box.type === 'vttc')
+    .map((vttc) => {
+      const parts = children(sample, vttc.dataStart, vttc.end);
+      const read = (type: string) => {
+        const box = parts.find((part) => part.type === type);
+        return box ? decodeUTF8(sample.subarray(box.dataStart, box.end)) : undefined;
+      };
+      return { text: read('payl') ?? '', settings: read('sttg') };
+    });
+}
+
+/**
+ * Read the cues of one track. `onProgress` gets the share of the samples
+ * that were read, from 0 to 1.
+ */
+export async function extractMP4Track(
+  file: Blob,
+  trackId: number,
+  onProgress?: (progress: number) => void
+): Promise<{ track: TextTrack; cues: TextCue[]; header: string }> {
+  const reader = new BlobReader(file);
+  const tracks = await readTracks(reader);
+  const found = tracks.find((candidate) => candidate.id === trackId);
+  if (!found) {
+    throw new MediaError(`Track ${trackId} is not a text track`);
+  }
+  const { timescale, samples, ...track } = found;
+  if (samples.length === 0) {
+    throw new MediaError('This track has no samples, fragmented MP4 files are not supported');
+  }
+
+  const toMs = (value: number) => Math.round((value * 1000) / timescale);
+  const cues: TextCue[] = [];
+  for (const [i, sample] of samples.entries()) {
+    // Text samples are small, reading each one keeps memory low
+    const bytes = (await reader.bytes(sample.offset, sample.size)).slice();
+    const start = toMs(sample.start);
+    const end = toMs(sample.start + sample.duration);
+    const entries =
+      track.format === 'vtt' ? decodeWvtt(bytes) : [{ text: decodeTx3g(bytes), settings: undefined }];
+    for (const { text, settings } of entries) {
+      const normalized = text.replace(/\r\n?/g, '\n').trim();
+      if (normalized) cues.push({ start, end, text: normalized, settings });
+    }
+    if (onProgress && i % 100 === 0) onProgress(i / samples.length);
+  }
+
+  return { track, cues, header: '' };
+}
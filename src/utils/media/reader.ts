@@ -0,0 +1,45 @@
+// Bytes are read in windows of this size, so a video is never loaded whole
+const WINDOW_SIZE = 1024 * 1024;
+
+export class MediaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MediaError';
+  }
+}
+
+/**
+ * Random access to a Blob through a read window. Reads close to the
+ * previous one are served from memory, others load a new window.
+ */
+export class BlobReader {
+  readonly size: number;
+  private start = 0;
+  private buffer = new Uint8Array(0);
+
+  constructor(private readonly blob: Blob) {
+    this.size = blob.size;
+  }
+
+  async bytes(position: number, length: number): Promise<Uint8Array> {
+    const end = Math.min(position + length, this.size);
+    if (position < this.start || end > this.start + this.buffer.length) {
+      const windowEnd = Math.min(this.size, position + Math.max(length, WINDOW_SIZE));
+      this.buffer = new Uint8Array(await this.blob.slice(position, windowEnd).arrayBuffer());
+      this.start = position;
+    }
+    return this.buffer.subarray(position - this.start, end - this.start);
+  }
+}
+
+// Big-endian unsigned integer of up to 8 bytes, as a number
+export function readUint(bytes: Uint8Array, offset = 0, length = bytes.length - offset): number {
+  let value = 0;
+  for (let i = 0; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+  }
+  return value;
+}
+
+export const decodeUTF8 = (bytes: Uint8Array): string =>
+  new TextDecoder('utf-8').decode(bytes);
@@ -0,0 +1,93 @@
+import { formatTime } from '../timecode';
+import { formatASSTime } from '../ass';
+
+// Subtitle format an embedded track is written out as
+export type TrackFormat = 'srt' | 'ass' | 'ssa' | 'vtt';
+
+export interface TextTrack {
+  // Matroska track number or MP4 track ID
+  id: number;
+  codec: string;
+  format: TrackFormat;
+  // ISO 639-2 or BCP 47 tag, as stored in the container
+  language?: string;
+  name?: string;
+  isDefault: boolean;
+  isForced: boolean;
+}
+
+export interface TextCue {
+  start: number;
+  end: number;
+  text: string;
+  // WebVTT cue settings
+  settings?: string;
+  // Matroska ASS/SSA blocks are stored out of order, this is their ReadOrder
+  order?: number;
+}
+
+// Event format ASS/SSA tracks use when their header has none
+const DEFAULT_EVENT_FORMAT: Record<'ass' | 'ssa', string> = {
+  ass: 'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+  ssa: 'Format: Marked, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+};
+
+const vttTime = (ms: number): string => formatTime(ms).replace(',', '.');
+
+/**
+ * Write the cues of an embedded track as a subtitle file. `header` is the
+ * codec private data of Matroska ASS/SSA and WebVTT tracks.
+ */
+export function serializeTrack(format: TrackFormat, cues: TextCue[], header = ''): string {
+  const sorted = [...cues].sort(
+    (a, b) => a.start - b.start || (a.order ?? 0) - (b.order ?? 0)
+  );
+
+  switch (format) {
+    case 'vtt':
+      return [
+        header.trim() || 'WEBVTT',
+        ...sorted.map(
+          (cue) =>
+            `${vttTime(cue.start)} --> ${vttTime(cue.end)}${cue.settings ? ` ${cue.settings}` : ''}\n${cue.text}`
+        ),
+      ].join('\n\n') + '\n';
+
+    case 'ass':
+    case 'ssa': {
+      // Blocks hold "Layer,Style,Name,MarginL,MarginR,MarginV,Effect,Text",
+      // the times go after the first field
+      const events = [...cues]
+        .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+        .map((cue) => {
+          const [layer, ...rest] = cue.text.split(',');
+          return `Dialogue: ${layer},${formatASSTime(cue.start)},${formatASSTime(cue.end)},${rest.join(',')}`;
+        });
+      const lines = header.trim().split(/\r?\n/);
+      if (!lines.some((line) => /^\[Events\]/i.test(line.trim()))) {
+        lines.push('', '[Events]', DEFAULT_EVENT_FORMAT[format]);
+      }
+      return [...lines, ...events].join('\n') + '\n';
+    }
+
+    default:
+      return sorted
+        .map((cue, i) => `${i + 1}\n${formatTime(cue.start)} --> ${formatTime(cue.end)}\n${cue.text}\n`)
+        .join('\n');
+  }
+}
+
+// Cues without a duration last until the next one, capped at this
+const MAX_OPEN_DURATION = 5000;
+
+export function closeOpenCues(cues: (Omit<TextCue, 'end'> & { end?: number })[]): TextCue[] {
+  const starts = cues.map((cue) => cue.start).sort((a, b) => a - b);
+  return cues.map((cue) => {
+    if (cue.end !== undefined) return cue as TextCue;
+    const next = starts.find((start) => start > cue.start);
+    return {
+      ...cue,
+      end: Math.min(next ?? Infinity, cue.start + MAX_OPEN_DURATION),
+    };
+  });
+}
@@ -0,0 +1,479 @@
+import { AUTO_DETECT, isSupportedLanguage } from './languages';
+import { stripMarkup } from './markup';
+import { applyTextChanges } from './history';
+import { notifySubtitlesChanged } from './project';
+import type { RowRenderEvent, TableLine } from './table';
+import { getLine, getLines, refreshLines, rowField } from './table';
+
+/**
+ * Translation memory: source and target segments of lines translated
+ * before, per language pair, so recurring lines (intros, catchphrases,
+ * "Previously on...") are filled in instead of sent to the model again.
+ * Kept in IndexedDB, exchanged with other tools as TMX.
+ */
+
+export interface MemoryEntry {
+  // AUTO_DETECT when the source language wasn't chosen
+  sourceLanguage: string;
+  targetLanguage: string;
+  source: string;
+  target: string;
+  updatedAt: number;
+}
+
+export interface MemoryMatch {
+  entry: MemoryEntry;
+  // Similarity of the sources, 100 for an exact match
+  score: number;
+}
+
+// Fuzzy matches below this are too different to be worth filling in
+export const MIN_MATCH_SCORE = 75;
+
+// Older entries are deleted beyond this
+export const MAX_MEMORY_ENTRIES = 20000;
+
+// Fuzzy matches are only scored for the entries closest at first sight
+const MAX_CANDIDATES = 20;
+
+const DB_NAME = 'subtitle-translator-memory';
+const DB_VERSION = 1;
+const STORE_NAME = 'segments';
+
+/**
+ * The form of a segment used for matching: without markup and with
+ * whitespace, line breaks included, collapsed.
+ */
+export const normalizeSegment = (text: string): string =>
+  stripMarkup(text).replace(/\s+/g, ' ').trim();
+
+const entryId = (entry: Pick<MemoryEntry, 'sourceLanguage' | 'targetLanguage' | 'source'>): string =>
+  `${entry.sourceLanguage}:${entry.targetLanguage}:${normalizeSegment(entry.source)}`;
+
+// Edit distance, given up once it exceeds `limit`
+function levenshtein(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      best = Math.min(best, current[j]);
+    }
+    if (best > limit) return limit + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Similarity of two normalized segments in percent, rounded down
+export function similarity(a: string, b: string): number {
+  if (a === b) return 100;
+  const length = Math.max(a.length, b.length);
+  return Math.max(0, Math.floor((1 - levenshtein(a, b, length) / length) * 100));
+}
+
+// Character pairs of a segment, any script has them
+function bigrams(key: string): Set<string> {
+  const text = key.toLowerCase().replace(/\s/g, '');
+  const pairs = new Set<string>();
+  for (let i = 0; i < text.length - 1; i++) pairs.add(text.slice(i, i + 2));
+  if (text.length === 1) pairs.add(text);
+  return pairs;
+}
+
+export interface MemoryIndex {
+  entries: MemoryEntry[];
+  keys: string[];
+  exact: Map<string, MemoryEntry>;
+  // Entries by the character pairs of their source
+  bigrams: Map<string, number[]>;
+}
+
+// Index entries for matching, the most recent wins between equal sources
+export function buildMemoryIndex(entries: MemoryEntry[]): MemoryIndex {
+  const sorted = [...entries].sort((a, b) => a.updatedAt - b.updatedAt);
+  const index: MemoryIndex = { entries: [], keys: [], exact: new Map(), bigrams: new Map() };
+  for (const entry of sorted) {
+    const key = normalizeSegment(entry.source);
+    if (!key || !entry.target.trim()) continue;
+    index.exact.set(key, entry);
+  }
+  for (const [key, entry] of index.exact) {
+    const position = index.entries.push(entry) - 1;
+    index.keys.push(key);
+    for (const pair of bigrams(key)) {
+      const list = index.bigrams.get(pair);
+      if (list) list.push(position);
+      else index.bigrams.set(pair, [position]);
+    }
+  }
+  return index;
+}
+
+/**
+ * The best match for a source line, exact or at least `minScore` similar.
+ * Only the entries sharing the most character pairs with the line are
+ * scored, which keeps large memories fast.
+ */
+export function findMatch(
+  index: MemoryIndex,
+  text: string,
+  minScore = MIN_MATCH_SCORE
+): MemoryMatch | undefined {
+  const key = normalizeSegment(text);
+  if (!key) return undefined;
+  const exact = index.exact.get(key);
+  if (exact) return { entry: exact, score: 100 };
+  if (minScore >= 100) return undefined;
+
+  const shared = new Map<number, number>();
+  for (const pair of bigrams(key)) {
+    for (const position of index.bigrams.get(pair) ?? []) {
+      shared.set(position, (shared.get(position) ?? 0) + 1);
+    }
+  }
+  const candidates = [...shared.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_CANDIDATES);
+
+  let best: MemoryMatch | undefined;
+  for (const [position] of candidates) {
+    const score = similarity(key, index.keys[position]);
+    if (score >= minScore && (!best || score > best.score)) {
+      best = { entry: index.entries[position], score };
+    }
+  }
+  return best;
+}
+
+// Entries that apply to a language pair, any source when it is detected
+export const appliesTo = (entry: MemoryEntry, sourceLanguage: string, targetLanguage: string): boolean =>
+  entry.targetLanguage === targetLanguage &&
+  (sourceLanguage === AUTO_DETECT ||
+    entry.sourceLanguage === sourceLanguage ||
+    entry.sourceLanguage === AUTO_DETECT);
+
+// TMX
+
+// TMX has no code for a detected language, "und" is BCP 47 for undetermined
+const UNDETERMINED = 'und';
+
+const escapeXML = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const unescapeXML = (text: string): string =>
+  text.replace(/&(#x[\da-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (match, name: string) => {
+    const lower = name.toLowerCase();
+    if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    if (lower.startsWith('#')) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[lower] ?? match;
+  });
+
+const tmxLanguage = (code: string): string => (code === AUTO_DETECT ? UNDETERMINED : code);
+
+// Our code for a TMX language tag, e.g. "pt-BR" is "pt"; null if we have none
+function fromTMXLanguage(tag: string): string | null {
+  const primary = tag.trim().toLowerCase().split(/[-_]/)[0];
+  if (primary === UNDETERMINED || primary === '*all*') return AUTO_DETECT;
+  return isSupportedLanguage(primary) ? primary : null;
+}
+
+// TMX 1.4 document of the entries, one translation unit each
+export function buildTMX(entries: MemoryEntry[]): string {
+  const sourceLanguages = new Set(entries.map((entry) => tmxLanguage(entry.sourceLanguage)));
+  const srclang = sourceLanguages.size === 1 ? [...sourceLanguages][0] : '*all*';
+  const units = entries.map((entry) =>
+    [
+      `    <tu srclang="${escapeXML(tmxLanguage(entry.sourceLanguage))}" changedate="${new Date(entry.updatedAt)
+        .toISOString()
+        .replace(/[-:]|\.\d+/g, '')}">`,
+      `      <tuv xml:lang="${escapeXML(tmxLanguage(entry.sourceLanguage))}"><seg>${escapeXML(entry.source)}</seg></tuv>`,
+      `      <tuv xml:lang="${escapeXML(tmxLanguage(entry.targetLanguage))}"><seg>${escapeXML(entry.target)}</seg></tuv>`,
+      '    </tu>',
+    ].join('\n')
+  );
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<tmx version="1.4">',
+    `  <header creationtool="Subtitle Translator AI" creationtoolversion="1.0" segtype="sentence" o-tmf="subtitle-translator" adminlang="en" srclang="${escapeXML(srclang)}" datatype="plaintext"/>`,
+    '  <body>',
+    ...units,
+    '  </body>',
+    '</tmx>',
+    '',
+  ].join('\n');
+}
+
+const attribute = (tag: string, name: string): string | undefined =>
+  tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'))?.slice(1).find((value) => value !== undefined);
+
+// Text of a segment: inline codes (bpt, ept, ph, it) are dropped, hi is kept
+const segmentText = (seg: string): string =>
+  unescapeXML(
+    seg
+      .replace(/<(bpt|ept|ph|it|ut)\b[^>]*\/>/gi, '')
+      .replace(/<(bpt|ept|ph|it|ut)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<\/?[\w:-]+[^>]*>/g, '')
+  );
+
+/**
+ * Read the translation units of a TMX document. Every variant in a unit is
+ * paired with its source, the unit's srclang, the header's or the first
+ * variant. Units in languages we don't offer are skipped.
+ */
+export function parseTMX(xml: string, now = Date.now()): MemoryEntry[] {
+  const header = xml.match(/<header\b[^>]*>/i)?.[0] ?? '';
+  const headerSource = attribute(header, 'srclang');
+  const entries: MemoryEntry[] = [];
+
+  for (const [, unitTag, body] of xml.matchAll(/(<tu\b[^>]*>)([\s\S]*?)<\/tu>/gi)) {
+    const variants = [...body.matchAll(/(<tuv\b[^>]*>)[\s\S]*?<seg\b[^>]*>([\s\S]*?)<\/seg>/gi)].map(
+      ([, tag, seg]) => ({
+        language: attribute(tag, 'xml:lang') ?? attribute(tag, 'lang') ?? '',
+        text: segmentText(seg).trim(),
+      })
+    );
+    const srclang = attribute(unitTag, 'srclang') ?? headerSource;
+    const source =
+      variants.find(
+        (variant) => srclang && srclang !== '*all*' && variant.language.toLowerCase() === srclang.toLowerCase()
+      ) ?? variants[0];
+    const sourceLanguage = source && fromTMXLanguage(source.language);
+    if (!source?.text || !sourceLanguage) continue;
+
+    for (const variant of variants) {
+      const targetLanguage = fromTMXLanguage(variant.language);
+      if (variant === source || !variant.text || !targetLanguage || targetLanguage === AUTO_DETECT) continue;
+      entries.push({ sourceLanguage, targetLanguage, source: source.text, target: variant.text, updatedAt: now });
+    }
+  }
+  return entries;
+}
+
+// Browser-side storage
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      store.createIndex('targetLanguage', 'targetLanguage');
+      store.createIndex('updatedAt', 'updatedAt');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // A failed open is retried on the next call
+  database.catch(() => {
+    database = null;
+  });
+  return database;
+}
+
+// Run requests in one transaction, resolved once it is committed
+async function withTransaction<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function loadMemory(sourceLanguage: string, targetLanguage: string): Promise<MemoryEntry[]> {
+  const entries = await withTransaction<MemoryEntry[]>('readonly', (store) =>
+    store.index('targetLanguage').getAll(targetLanguage)
+  );
+  return (entries ?? []).filter((entry) => appliesTo(entry, sourceLanguage, targetLanguage));
+}
+
+export async function loadAllMemory(): Promise<MemoryEntry[]> {
+  return (await withTransaction<MemoryEntry[]>('readonly', (store) => store.getAll())) ?? [];
+}
+
+/**
+ * Add segment pairs, replacing the entries with the same source in the same
+ * pair. The oldest entries are deleted beyond MAX_MEMORY_ENTRIES.
+ */
+export async function addToMemory(entries: MemoryEntry[]): Promise<void> {
+  const valid = entries.filter((entry) => normalizeSegment(entry.source) && entry.target.trim());
+  if (valid.length === 0) return;
+  await withTransaction('readwrite', (store) => {
+    for (const entry of valid) store.put({ ...entry, id: entryId(entry) });
+  });
+
+  const count = await withTransaction<number>('readonly', (store) => store.count());
+  let excess = (count ?? 0) - MAX_MEMORY_ENTRIES;
+  if (excess <= 0) return;
+  await withTransaction('readwrite', (store) => {
+    store.index('updatedAt').openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor || excess-- <= 0) return;
+      cursor.delete();
+      cursor.continue();
+    };
+  });
+}
+
+export async function clearMemory(): Promise<void> {
+  await withTransaction('readwrite', (store) => store.clear());
+}
+
+// Browser-side helpers for the subtitle table
+
+const selectValue = (id: string): string =>
+  (document.getElementById(id) as HTMLSelectElement | null)?.value || '';
+
+// Language pair chosen in the translation settings, none without a target
+export function currentLanguagePair(): { sourceLanguage: string; targetLanguage: string } | undefined {
+  const targetLanguage = selectValue('language-select');
+  if (!targetLanguage) return undefined;
+  return { sourceLanguage: selectValue('source-language-select') || AUTO_DETECT, targetLanguage };
+}
+
+/**
+ * Whether a line still holds the text filled in from the memory. Such
+ * lines are left out of translation and AI optimization.
+ */
+export function isMemoryMatch(index: number): boolean {
+  const line = getLine(index);
+  return !!line?.translation && line.memory?.text === line.translation;
+}
+
+// Forget the matches of lines edited since, and update their rows
+function forgetEditedMatches(indices: number[]): void {
+  const edited = indices.filter((index) => getLine(index)?.memory && !isMemoryMatch(index));
+  for (const index of edited) delete getLine(index)!.memory;
+  refreshLines(edited);
+}
+
+// Show the match percentage under a line filled in from the memory
+function renderBadge(row: HTMLTableRowElement, line: TableLine): void {
+  const box = rowField(row, 'memory');
+  if (!box || !line.memory || line.memory.text !== line.translation) return;
+
+  const { score, source } = line.memory;
+  const badge = document.createElement('span');
+  badge.className = `badge ${score === 100 ? 'text-bg-success' : 'text-bg-warning'}`;
+  badge.textContent = `${score}% match`;
+  badge.title = 'Filled in from the translation memory';
+  box.replaceChildren(badge);
+  if (source) {
+    const sourceText = document.createElement('span');
+    sourceText.className = 'text-muted ms-1';
+    sourceText.textContent = `for "${source}"`;
+    box.append(sourceText);
+  }
+  box.classList.remove('d-none');
+}
+
+/**
+ * Fill empty lines with their best match in the memory, as one undoable
+ * step. Fuzzy matches show the source they were made for, so they can be
+ * checked. Returns the lines filled in.
+ */
+export async function applyMemoryMatches(
+  indices: number[],
+  sourceLanguage: string,
+  targetLanguage: string
+): Promise<MemoryMatch[]> {
+  const memory = buildMemoryIndex(await loadMemory(sourceLanguage, targetLanguage));
+  if (memory.entries.length === 0) return [];
+
+  const matches = new Map<number, MemoryMatch>();
+  for (const index of indices) {
+    const line = getLine(index);
+    if (!line || line.translation.trim()) continue;
+    const match = findMatch(memory, line.content);
+    if (match) matches.set(index, match);
+  }
+
+  const changes = applyTextChanges(
+    'Translation memory',
+    [...matches].map(([index, match]) => ({ index, content: match.entry.target }))
+  );
+  for (const { index } of changes) {
+    const match = matches.get(index)!;
+    getLine(index)!.memory = {
+      text: match.entry.target,
+      score: match.score,
+      source: match.score < 100 ? match.entry.source : undefined,
+    };
+  }
+  refreshLines(changes.map((change) => change.index));
+  if (changes.length > 0) notifySubtitlesChanged();
+  return changes.map((change) => matches.get(change.index)!);
+}
+
+const MEMORY_SAVE_DELAY = 2000;
+
+/**
+ * Learn the lines of the table as they are translated, edited or accepted
+ * from AI suggestions, for the language pair chosen at the time. Lines
+ * still holding a memory match are not stored again.
+ */
+export function initTranslationMemory(): void {
+  // Text of each line when it was last stored
+  const stored = new Map<number, string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const save = () => {
+    timer = undefined;
+    const pair = currentLanguagePair();
+    if (!pair) return;
+
+    const entries: MemoryEntry[] = [];
+    getLines().forEach((line, i) => {
+      const index = i + 1;
+      const target = line.translation.trim();
+      if (!target || stored.get(index) === target || isMemoryMatch(index)) return;
+      stored.set(index, target);
+      entries.push({ ...pair, source: line.content, target, updatedAt: Date.now() });
+    });
+    addToMemory(entries)
+      .then(() => entries.length > 0 && document.dispatchEvent(new CustomEvent('memory:change')))
+      .catch((error) => console.error('Error saving translation memory:', error));
+  };
+  const schedule = () => {
+    clearTimeout(timer);
+    timer = setTimeout(save, MEMORY_SAVE_DELAY);
+  };
+
+  document.addEventListener('row:render', (event) => {
+    const { row, line } = (event as RowRenderEvent).detail;
+    renderBadge(row, line);
+  });
+  document.addEventListener('input', (event) => {
+    const target = event.target;
+    if (target instanceof HTMLTextAreaElement && target.matches('.editable-cell')) {
+      forgetEditedMatches([Number(target.closest('tr')?.dataset.index)]);
+    }
+  });
+  document.addEventListener('change', (event) => {
+    if (event.target instanceof HTMLTextAreaElement && event.target.matches('.editable-cell')) schedule();
+  });
+  document.addEventListener('subtitles:change', () => {
+    // Undo and code changes skip the input event
+    forgetEditedMatches(getLines().flatMap((line, i) => (line.memory ? [i + 1] : [])));
+    schedule();
+  });
+  // Lines were renumbered, stored texts no longer match them
+  document.addEventListener('cues:change', () => stored.clear());
+}
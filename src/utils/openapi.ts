@@ -0,0 +1,258 @@
+import { API_ERROR_CODES, MAX_LINES_PER_FILE } from './api';
+import { INPUT_ENCODINGS, LINE_ENDINGS, OUTPUT_ENCODINGS } from './encoding';
+import { BILINGUAL_ORDERS, SUPPORTED_FORMATS } from './formats';
+import { AUTO_DETECT, LANGUAGES } from './languages';
+import { DEFAULT_MODELS } from './llm';
+import { ROUTE_LIMITS } from './rate-limit';
+import { SDH_ELEMENTS } from './sdh';
+
+/**
+ * OpenAPI description of /api/v1, served at /api/v1/openapi.json. The
+ * enums come from the modules that check them, so the document can't drift
+ * from what the routes accept.
+ */
+
+const FORMATS = Object.keys(SUPPORTED_FORMATS);
+
+// Fields of every /api/v1 request: the file and how it is read and written
+const fileFields = {
+  file: {
+    type: 'string',
+    format: 'binary',
+    description: 'Subtitle file, its name must have a subtitle extension',
+  },
+  from: {
+    type: 'string',
+    enum: FORMATS,
+    description: 'Format of the file, detected from its content by default',
+  },
+  to: {
+    type: 'string',
+    enum: FORMATS,
+    description: 'Format of the output, the extension of the file by default',
+  },
+  encoding: {
+    type: 'string',
+    enum: Object.keys(INPUT_ENCODINGS),
+    description: 'Encoding of the file, detected by default',
+  },
+  outputEncoding: {
+    type: 'string',
+    enum: Object.keys(OUTPUT_ENCODINGS),
+    description: 'Encoding of the output, UTF-8 with a BOM by default (UTF-8 for JSON)',
+  },
+  lineEnding: { type: 'string', enum: Object.keys(LINE_ENDINGS), default: 'crlf' },
+  fps: {
+    type: 'number',
+    exclusiveMinimum: 0,
+    maximum: 240,
+    description: 'Frame rate of MicroDVD (.sub) input and output',
+  },
+  bilingual: {
+    type: 'string',
+    enum: [...BILINGUAL_ORDERS],
+    description: 'Write the original and the new text together, in this order',
+  },
+  removeSDH: {
+    type: 'string',
+    description: `Hearing-impaired annotations to remove from the output, comma separated: ${Object.keys(
+      SDH_ELEMENTS
+    ).join(', ')}. caps also matches shouted lines. Cues left empty are dropped`,
+  },
+};
+
+// Fields of the requests that call a model
+const llmFields = {
+  provider: { type: 'string', enum: Object.keys(DEFAULT_MODELS), default: 'gemini' },
+  model: { type: 'string', description: 'Model, the default of the provider by default' },
+  apiKey: {
+    type: 'string',
+    description: 'Key of the provider, or send it as `Authorization: Bearer <key>`',
+  },
+  baseUrl: { type: 'string', description: 'Base URL of an OpenAI-compatible server, one the site allows' },
+  glossary: {
+    type: 'string',
+    description:
+      'One term per line, "source => target" for a required translation or the term alone to keep it as is',
+  },
+};
+
+const rateLimitHeaders = {
+  'RateLimit-Limit': { schema: { type: 'integer' } },
+  'RateLimit-Remaining': { schema: { type: 'integer' } },
+  'RateLimit-Reset': {
+    schema: { type: 'integer' },
+    description: 'Seconds until the window resets',
+  },
+};
+
+const fileResponse = (description: string, failedLines: boolean) => ({
+  description,
+  headers: {
+    'Content-Disposition': { schema: { type: 'string' } },
+    'X-Unmappable-Characters': {
+      schema: { type: 'integer' },
+      description: 'Characters the output encoding can\'t represent, written as "?"',
+    },
+    ...(failedLines
+      ? {
+          'X-Failed-Lines': {
+            schema: { type: 'string' },
+            description:
+              'Comma separated indices of the lines the model got wrong, written unchanged. Absent when there are none.',
+          },
+        }
+      : {}),
+    ...rateLimitHeaders,
+  },
+  content: { 'application/octet-stream': { schema: { type: 'string', format: 'binary' } } },
+});
+
+const errorResponses = (llm: boolean) => ({
+  '400': { $ref: '#/components/responses/Error' },
+  ...(llm ? { '401': { $ref: '#/components/responses/Error' } } : {}),
+  '415': { $ref: '#/components/responses/Error' },
+  '422': { $ref: '#/components/responses/Error' },
+  '429': { $ref: '#/components/responses/RateLimited' },
+  ...(llm ? { '502': { $ref: '#/components/responses/Error' } } : {}),
+  '500': { $ref: '#/components/responses/Error' },
+});
+
+const rateLimitOf = (path: string): string => {
+  const { limit, windowSeconds } = ROUTE_LIMITS[path];
+  return `Limited to ${limit} requests per ${windowSeconds} seconds per client.`;
+};
+
+export function openAPIDocument(serverUrl: string) {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Subtitle Translator AI API',
+      version: '1.0.0',
+      description:
+        'Convert, translate and optimize subtitle files. Requests are multipart/form-data with the file as `file`, successful responses are the resulting file. Errors are JSON objects `{ success: false, error, errorCode }`.',
+    },
+    servers: [{ url: serverUrl }],
+    paths: {
+      '/api/v1/convert': {
+        post: {
+          operationId: 'convert',
+          summary: 'Convert a subtitle file to another format',
+          description: rateLimitOf('/api/v1/convert'),
+          requestBody: {
+            required: true,
+            content: {
+              'multipart/form-data': {
+                schema: { type: 'object', required: ['file'], properties: fileFields },
+              },
+            },
+          },
+          responses: {
+            '200': fileResponse('The converted file', false),
+            ...errorResponses(false),
+          },
+        },
+      },
+      '/api/v1/translate': {
+        post: {
+          operationId: 'translate',
+          summary: 'Translate a subtitle file',
+          description: `Timing and formatting are kept, empty lines are skipped. At most ${MAX_LINES_PER_FILE} lines per file. ${rateLimitOf('/api/v1/translate')}`,
+          security: [{}, { bearer: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              'multipart/form-data': {
+                schema: {
+                  type: 'object',
+                  required: ['file', 'targetLanguage'],
+                  properties: {
+                    ...fileFields,
+                    sourceLanguage: {
+                      type: 'string',
+                      enum: [AUTO_DETECT, ...LANGUAGES.map((language) => language.code)],
+                      default: AUTO_DETECT,
+                    },
+                    targetLanguage: {
+                      type: 'string',
+                      enum: LANGUAGES.map((language) => language.code),
+                    },
+                    ...llmFields,
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': fileResponse('The translated file', true),
+            ...errorResponses(true),
+          },
+        },
+      },
+      '/api/v1/optimize': {
+        post: {
+          operationId: 'optimize',
+          summary: 'Improve the grammar and flow of a subtitle file',
+          description: `The text stays in its language, timing and formatting are kept. At most ${MAX_LINES_PER_FILE} lines per file. ${rateLimitOf('/api/v1/optimize')}`,
+          security: [{}, { bearer: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              'multipart/form-data': {
+                schema: {
+                  type: 'object',
+                  required: ['file'],
+                  properties: { ...fileFields, ...llmFields },
+                },
+              },
+            },
+          },
+          responses: {
+            '200': fileResponse('The optimized file', true),
+            ...errorResponses(true),
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        bearer: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'API key of the model provider',
+        },
+      },
+      schemas: {
+        Error: {
+          type: 'object',
+          required: ['success', 'error', 'errorCode'],
+          properties: {
+            success: { type: 'boolean', const: false },
+            error: { type: 'string', description: 'Readable message' },
+            errorCode: { type: 'string', enum: [...API_ERROR_CODES] },
+          },
+        },
+      },
+      responses: {
+        Error: {
+          description: 'The request failed, see errorCode',
+          headers: {
+            'Retry-After': {
+              schema: { type: 'integer' },
+              description: 'Seconds to wait, when the model provider asked for it',
+            },
+          },
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+        },
+        RateLimited: {
+          description: 'Too many requests, errorCode is quota',
+          headers: {
+            'Retry-After': { schema: { type: 'integer' } },
+            ...rateLimitHeaders,
+          },
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,344 @@
+import type {
+  GeminiOptimizeResponse,
+  GlossaryEntry,
+  LLMErrorCode,
+  LLMRequestOptions,
+  OptimizeContext,
+  SubtitleItem,
+} from '../types/gemini';
+import { parseRetryAfter } from './llm/errors';
+
+/**
+ * AI optimization of the translate page as a resumable job: the lines are
+ * split into batches that are sent a few at a time, retried with backoff
+ * when they fail and kept with the project, so a reload or a pause doesn't
+ * lose the batches already done. Each batch is sent with the lines around
+ * it and a summary of the file that every response updates.
+ */
+
+export type JobBatchStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface JobBatch {
+  subtitles: SubtitleItem[];
+  status: JobBatchStatus;
+  attempts: number;
+  optimized?: SubtitleItem[];
+  // Lines the model got wrong, returned unchanged
+  unoptimized?: number[];
+  error?: string;
+  errorCode?: LLMErrorCode;
+  // When the next attempt is sent, while waiting after a failure
+  retryAt?: number;
+}
+
+export type JobStatus = 'running' | 'paused' | 'cancelled' | 'done';
+
+export interface OptimizeJob {
+  status: JobStatus;
+  // Batches sent at the same time
+  concurrency: number;
+  batches: JobBatch[];
+  // Topic, characters and register, from the last batch that came back
+  summary?: string;
+  // Set when the job stopped on an error retrying can't fix
+  error?: string;
+  errorCode?: LLMErrorCode;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface OptimizeSettings {
+  llm: LLMRequestOptions;
+  glossary: GlossaryEntry[];
+}
+
+// Keep in sync with MAX_SUBTITLES_PER_REQUEST in utils/llm/tasks
+export const OPTIMIZE_BATCH_SIZE = 50;
+
+export const MAX_CONCURRENCY = 4;
+
+// Read-only lines sent on each side of a batch, at most MAX_CONTEXT_LINES in
+// utils/llm/tasks
+export const CONTEXT_LINES = 5;
+
+// Requests per batch before it is marked failed
+export const MAX_ATTEMPTS = 4;
+
+const BASE_DELAY = 1000;
+const MAX_DELAY = 60_000;
+
+// A batch that takes longer is abandoned and retried
+const REQUEST_TIMEOUT = 120_000;
+
+// Error of one /api/aioptimize request, with the typed code of the response
+export class OptimizeError extends Error {
+  code?: LLMErrorCode;
+  // Seconds to wait before trying again, from the Retry-After header
+  retryAfter?: number;
+
+  constructor(message: string, code?: LLMErrorCode, retryAfter?: number) {
+    super(message);
+    this.name = 'OptimizeError';
+    this.code = code;
+    this.retryAfter = retryAfter;
+  }
+}
+
+export const clampConcurrency = (value: number): number =>
+  Math.min(MAX_CONCURRENCY, Math.max(1, Math.floor(value) || 1));
+
+export function createOptimizeJob(subtitles: SubtitleItem[], concurrency: number): OptimizeJob {
+  const batches: JobBatch[] = [];
+  for (let i = 0; i < subtitles.length; i += OPTIMIZE_BATCH_SIZE) {
+    batches.push({
+      subtitles: subtitles.slice(i, i + OPTIMIZE_BATCH_SIZE),
+      status: 'pending',
+      attempts: 0,
+    });
+  }
+  const now = Date.now();
+  return {
+    status: 'paused',
+    concurrency: clampConcurrency(concurrency),
+    batches,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// Wrong keys and rejected requests fail the same way every time
+export const isRetryable = (code?: LLMErrorCode): boolean =>
+  code !== 'auth' && code !== 'invalid_request';
+
+/**
+ * Milliseconds to wait before attempt `attempt + 1`. The server's
+ * Retry-After wins, otherwise the delay doubles with each attempt, with
+ * jitter so parallel batches don't retry in lockstep.
+ */
+export function backoffDelay(attempt: number, retryAfter?: number, random = Math.random()): number {
+  if (retryAfter !== undefined) return retryAfter * 1000;
+  const delay = Math.min(MAX_DELAY, BASE_DELAY * 2 ** Math.max(0, attempt - 1));
+  return Math.round(delay / 2 + (delay / 2) * random);
+}
+
+export function countBatches(job: OptimizeJob): Record<JobBatchStatus, number> {
+  const counts: Record<JobBatchStatus, number> = { pending: 0, running: 0, done: 0, failed: 0 };
+  job.batches.forEach((batch) => counts[batch.status]++);
+  return counts;
+}
+
+// Send the failed batches again on the next run. Returns how many.
+export function retryFailedBatches(job: OptimizeJob): number {
+  const failed = job.batches.filter((batch) => batch.status === 'failed');
+  for (const batch of failed) {
+    batch.status = 'pending';
+    batch.attempts = 0;
+    batch.error = undefined;
+    batch.errorCode = undefined;
+  }
+  return failed.length;
+}
+
+/**
+ * What the model sees around a batch: the end of the previous batch, as
+ * optimized when it is done, the start of the next one and the summary.
+ */
+export function batchContext(job: OptimizeJob, batch: JobBatch): OptimizeContext {
+  const position = job.batches.indexOf(batch);
+  const previous = job.batches[position - 1];
+  const next = job.batches[position + 1];
+  return {
+    before: previous ? (previous.optimized ?? previous.subtitles).slice(-CONTEXT_LINES) : [],
+    after: next ? next.subtitles.slice(0, CONTEXT_LINES) : [],
+    summary: job.summary,
+  };
+}
+
+export const isFinished = (job: OptimizeJob): boolean =>
+  job.batches.every((batch) => batch.status === 'done' || batch.status === 'failed');
+
+// Browser-side helpers for the translate page
+
+const sleep = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+async function requestBatch(
+  subtitles: SubtitleItem[],
+  context: OptimizeContext,
+  settings: OptimizeSettings,
+  signal: AbortSignal
+): Promise<Required<Pick<GeminiOptimizeResponse, 'optimized' | 'diagnostics'>> & { summary?: string }> {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  const timer = setTimeout(abort, REQUEST_TIMEOUT);
+  signal.addEventListener('abort', abort, { once: true });
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch('/api/aioptimize', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...settings.llm, subtitles, glossary: settings.glossary, context }),
+        signal: controller.signal,
+      });
+    } catch {
+      throw new OptimizeError(
+        controller.signal.aborted ? 'The request timed out' : 'Could not reach the server'
+      );
+    }
+
+    const result = await response.json().catch(() => null);
+    if (!response.ok || !result?.success || !result.optimized) {
+      throw new OptimizeError(
+        result?.error || `Request failed with status ${response.status}`,
+        result?.errorCode,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
+    }
+    return {
+      optimized: result.optimized,
+      diagnostics: result.diagnostics ?? { failed: [], issues: [], requests: 1 },
+      summary: result.summary,
+    };
+  } finally {
+    clearTimeout(timer);
+    signal.removeEventListener('abort', abort);
+  }
+}
+
+export interface JobRun {
+  // Settles once the job is done, paused or cancelled
+  finished: Promise<void>;
+  pause(): void;
+  cancel(): void;
+}
+
+/**
+ * Run the pending batches of a job, `concurrency` at a time. Settings are
+ * read before every request, so a key updated during a pause is used.
+ * `onUpdate` is called whenever a batch changes, `onBatchDone` with every
+ * batch that came back.
+ */
+export function runOptimizeJob(
+  job: OptimizeJob,
+  options: {
+    settings: () => OptimizeSettings;
+    onUpdate: (job: OptimizeJob) => void;
+    onBatchDone: (batch: JobBatch) => void;
+  }
+): JobRun {
+  const controller = new AbortController();
+  const { signal } = controller;
+  // Shared by every batch: a rate limit applies to all of them
+  let waitUntil = 0;
+
+  const update = () => {
+    job.updatedAt = Date.now();
+    options.onUpdate(job);
+  };
+
+  const stop = (status: 'paused' | 'cancelled') => {
+    if (job.status !== 'running') return;
+    job.status = status;
+    controller.abort();
+    update();
+  };
+
+  async function runBatch(batch: JobBatch): Promise<void> {
+    batch.status = 'running';
+    update();
+
+    while (!signal.aborted) {
+      await sleep(Math.max(0, waitUntil - Date.now()), signal);
+      if (signal.aborted) break;
+
+      batch.attempts++;
+      try {
+        const { optimized, diagnostics, summary } = await requestBatch(
+          batch.subtitles,
+          batchContext(job, batch),
+          options.settings(),
+          signal
+        );
+        batch.optimized = optimized;
+        batch.unoptimized = diagnostics.failed;
+        job.summary = summary ?? job.summary;
+        batch.status = 'done';
+        batch.error = undefined;
+        batch.errorCode = undefined;
+        options.onBatchDone(batch);
+        update();
+        return;
+      } catch (error) {
+        if (signal.aborted) break;
+        const failure = error instanceof OptimizeError ? error : new OptimizeError(String(error));
+        batch.error = failure.message;
+        batch.errorCode = failure.code;
+
+        if (failure.code === 'auth') {
+          // Every other batch would fail the same way, this one is sent
+          // again once the key is fixed
+          job.error = failure.message;
+          job.errorCode = failure.code;
+          stop('paused');
+          break;
+        }
+        if (!isRetryable(failure.code) || batch.attempts >= MAX_ATTEMPTS) {
+          batch.status = 'failed';
+          update();
+          return;
+        }
+        const delay = backoffDelay(batch.attempts, failure.retryAfter);
+        if (failure.code === 'quota') {
+          waitUntil = Math.max(waitUntil, Date.now() + delay);
+        }
+        batch.retryAt = Date.now() + delay;
+        update();
+        await sleep(delay, signal);
+        batch.retryAt = undefined;
+      }
+    }
+
+    // Paused or cancelled during the request, sent again on resume
+    batch.status = 'pending';
+    batch.retryAt = undefined;
+  }
+
+  job.status = 'running';
+  job.error = undefined;
+  job.errorCode = undefined;
+  // Batches cut off by a reload start over
+  job.batches.forEach((batch) => {
+    if (batch.status === 'running') batch.status = 'pending';
+  });
+  update();
+
+  const nextBatch = () => job.batches.find((candidate) => candidate.status === 'pending');
+  const worker = async () => {
+    for (let batch = nextBatch(); batch && !signal.aborted; batch = nextBatch()) {
+      await runBatch(batch);
+    }
+  };
+
+  const finished = (async () => {
+    // The first batch goes alone, the others are sent with its summary
+    const first = nextBatch();
+    if (!job.summary && first) {
+      await runBatch(first);
+    }
+    await Promise.all(Array.from({ length: clampConcurrency(job.concurrency) }, worker));
+    if (job.status === 'running') {
+      job.status = 'done';
+    }
+    update();
+  })();
+
+  return { finished, pause: () => stop('paused'), cancel: () => stop('cancelled') };
+}
@@ -0,0 +1,343 @@
+import type { SubtitleCaption } from './subtitle';
+import type { ASSDocument } from './ass';
+import type { DetectedEncoding } from './encoding';
+import type { OptimizeJob } from './optimize-job';
+import { getLine, getLines, refreshLines } from './table';
+
+/**
+ * Projects keep an uploaded file and the work done on it in IndexedDB, so
+ * edits survive a reload and can be resumed from the home page.
+ */
+
+export interface SubtitleProject {
+  id: string;
+  filename: string;
+  // Captions as uploaded, or as split and merged since
+  captions: SubtitleCaption[];
+  document?: ASSDocument;
+  encoding?: DetectedEncoding;
+  // Translated text by caption index
+  translations: Record<number, string>;
+  // Cue times after timing edits, by caption index
+  times: Record<number, { start: number; end: number }>;
+  sourceLanguage?: string;
+  targetLanguage?: string;
+  // When AI optimization last ran over the translation
+  optimizedAt?: number;
+  // Unfinished AI optimization, resumed from the translate page
+  optimizeJob?: OptimizeJob;
+  // AI suggestions waiting for review, by caption index
+  suggestions?: Record<number, string>;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ProjectSummary {
+  id: string;
+  filename: string;
+  lineCount: number;
+  translatedCount: number;
+  targetLanguage?: string;
+  optimizedAt?: number;
+  updatedAt: number;
+}
+
+const DB_NAME = 'subtitle-translator';
+const DB_VERSION = 2;
+const STORE_NAME = 'projects';
+const UPDATED_AT_INDEX = 'updatedAt';
+
+// Older projects are deleted beyond this, each one holds a whole file
+export const MAX_PROJECTS = 20;
+
+const PROJECT_ID_PATTERN = /^[\w-]{1,64}$/;
+
+export const isProjectId = (value: unknown): value is string =>
+  typeof value === 'string' && PROJECT_ID_PATTERN.test(value);
+
+export const createProjectId = (): string => crypto.randomUUID();
+
+export function summarizeProject(project: SubtitleProject): ProjectSummary {
+  return {
+    id: project.id,
+    filename: project.filename,
+    lineCount: project.captions.length,
+    translatedCount: Object.values(project.translations).filter((text) => text.trim())
+      .length,
+    targetLanguage: project.targetLanguage,
+    optimizedAt: project.optimizedAt,
+    updatedAt: project.updatedAt,
+  };
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const store = db.objectStoreNames.contains(STORE_NAME)
+        ? request.transaction!.objectStore(STORE_NAME)
+        : db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      // Version 2 finds the oldest projects without reading them all
+      if (!store.indexNames.contains(UPDATED_AT_INDEX)) {
+        store.createIndex(UPDATED_AT_INDEX, 'updatedAt');
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version open in another tab
+      db.onversionchange = () => {
+        db.close();
+        database = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  });
+  // A failed open is retried on the next call
+  database.catch(() => {
+    database = null;
+  });
+  return database;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export const getProject = (id: string): Promise<SubtitleProject | undefined> =>
+  withStore('readonly', (store) => store.get(id));
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await withStore('readwrite', (store) => store.delete(id));
+};
+
+// Most recently edited first
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const projects: SubtitleProject[] = await withStore('readonly', (store) => store.getAll());
+  return projects
+    .map(summarizeProject)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function saveProject(project: SubtitleProject): Promise<void> {
+  await withStore('readwrite', (store) => store.put(project));
+}
+
+// Delete the projects beyond MAX_PROJECTS, least recently edited first
+async function pruneProjects(): Promise<void> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const request = transaction.objectStore(STORE_NAME).index(UPDATED_AT_INDEX).openCursor(null, 'prev');
+    let skipped = false;
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      if (!skipped) {
+        skipped = true;
+        cursor.advance(MAX_PROJECTS);
+        return;
+      }
+      cursor.delete();
+      cursor.continue();
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Save a new project, making room for it
+export async function createProject(project: SubtitleProject): Promise<void> {
+  await saveProject(project);
+  await pruneProjects();
+}
+
+// Browser-side helpers for the translate page
+
+/**
+ * Tell the autosave that the table changed from code, e.g. after a
+ * translation batch. Typing in the table is picked up on its own.
+ */
+export function notifySubtitlesChanged(detail: { optimized?: boolean } = {}): void {
+  document.dispatchEvent(new CustomEvent('subtitles:change', { detail }));
+}
+
+// Translations and cue times currently in the table
+function collectTableState(): Pick<SubtitleProject, 'translations' | 'times'> {
+  const translations: SubtitleProject['translations'] = {};
+  const times: SubtitleProject['times'] = {};
+
+  getLines().forEach((line, i) => {
+    if (line.translation) translations[i + 1] = line.translation;
+    times[i + 1] = { start: line.start, end: line.end };
+  });
+
+  return { translations, times };
+}
+
+function applyTableState(project: SubtitleProject): void {
+  for (const [index, text] of Object.entries(project.translations)) {
+    const line = getLine(Number(index));
+    if (line) line.translation = text;
+  }
+  for (const [index, time] of Object.entries(project.times)) {
+    const line = getLine(Number(index));
+    if (!line) continue;
+    line.start = time.start;
+    line.end = time.end;
+  }
+  refreshLines();
+
+  const selects: [string, string | undefined][] = [
+    ['source-language-select', project.sourceLanguage],
+    ['language-select', project.targetLanguage],
+  ];
+  for (const [id, value] of selects) {
+    const select = document.getElementById(id) as HTMLSelectElement | null;
+    if (select && value) {
+      select.value = value;
+      // Lets the controls enable the Translate button
+      select.dispatchEvent(new Event('change'));
+    }
+  }
+}
+
+const selectValue = (id: string): string | undefined =>
+  (document.getElementById(id) as HTMLSelectElement | null)?.value || undefined;
+
+const AUTOSAVE_DELAY = 1000;
+
+function startAutosave(project: SubtitleProject): void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const save = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    Object.assign(project, collectTableState(), {
+      sourceLanguage: selectValue('source-language-select'),
+      targetLanguage: selectValue('language-select'),
+      updatedAt: Date.now(),
+    });
+    saveProject(project).catch((error) => console.error('Error saving project:', error));
+  };
+  const schedule = () => {
+    clearTimeout(timer);
+    timer = setTimeout(save, AUTOSAVE_DELAY);
+  };
+
+  document.addEventListener('input', (event) => {
+    if ((event.target as HTMLElement).matches('.editable-cell')) schedule();
+  });
+  for (const id of ['source-language-select', 'language-select']) {
+    document.getElementById(id)?.addEventListener('change', schedule);
+  }
+  document.addEventListener('subtitles:change', (event) => {
+    if ((event as CustomEvent<{ optimized?: boolean }>).detail?.optimized) {
+      project.optimizedAt = Date.now();
+    }
+    schedule();
+  });
+  // Lines were split, merged, inserted or deleted
+  document.addEventListener('cues:change', (event) => {
+    project.captions = (event as CustomEvent<{ captions: SubtitleCaption[] }>).detail.captions;
+    schedule();
+  });
+  // Suggestions were shown, accepted or rejected
+  document.addEventListener('review:change', (event) => {
+    project.suggestions = (event as CustomEvent<{ suggestions: Record<number, string> }>).detail.suggestions;
+    schedule();
+  });
+  // Don't lose the last keystrokes when the tab is closed
+  window.addEventListener('pagehide', () => {
+    if (timer !== undefined) save();
+  });
+}
+
+let currentProject: Promise<{ project: SubtitleProject; restored: boolean }> | null = null;
+
+/**
+ * Open the project of the translate page: the saved one when the page was
+ * resumed or reloaded, whose edits are put back into the table, otherwise a
+ * new one. Autosave starts once it is open.
+ */
+export function openCurrentProject(): Promise<{ project: SubtitleProject; restored: boolean }> {
+  currentProject ??= (async () => {
+    const dataElement = document.getElementById('subtitle-data');
+    const id = dataElement?.dataset.projectId || createProjectId();
+    const saved = await getProject(id).catch((error) => {
+      console.error('Error loading project:', error);
+      return undefined;
+    });
+
+    let project: SubtitleProject;
+    if (saved) {
+      project = saved;
+      applyTableState(project);
+    } else {
+      const now = Date.now();
+      const assDocument = document.getElementById('translate-table')?.dataset.assDocument;
+      project = {
+        id,
+        filename: dataElement?.dataset.filename || 'subtitles.srt',
+        captions: JSON.parse(dataElement?.dataset.subtitles || '[]'),
+        document: assDocument ? JSON.parse(assDocument) : undefined,
+        encoding: dataElement?.dataset.encoding ? JSON.parse(dataElement.dataset.encoding) : undefined,
+        ...collectTableState(),
+        createdAt: now,
+        updatedAt: now,
+      };
+      createProject(project).catch((error) => console.error('Error saving project:', error));
+    }
+
+    startAutosave(project);
+    return { project, restored: Boolean(saved) };
+  })();
+  return currentProject;
+}
+
+/**
+ * Keep the AI optimization job with the open project, or drop it once it
+ * no longer needs resuming.
+ */
+export async function saveOptimizeJob(job: OptimizeJob | undefined): Promise<void> {
+  const { project } = await openCurrentProject();
+  project.optimizeJob = job;
+  await saveProject(project);
+}
+
+/**
+ * Reopen a saved project on the translate page, the same way an upload
+ * does.
+ */
+export function resumeProject(project: SubtitleProject): void {
+  const form = document.createElement('form');
+  form.method = 'POST';
+  form.action = '/translate';
+
+  const input = document.createElement('input');
+  input.type = 'hidden';
+  input.name = 'subtitleData';
+  input.value = JSON.stringify({
+    success: true,
+    data: project.captions,
+    document: project.document,
+    encoding: project.encoding,
+    filename: project.filename,
+    projectId: project.id,
+  });
+
+  form.appendChild(input);
+  document.body.appendChild(form);
+  form.submit();
+}
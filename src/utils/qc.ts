@@ -0,0 +1,339 @@
+import { stripMarkup } from './markup';
+import type { RowRenderEvent } from './table';
+import { getLines, refreshLines, rowField } from './table';
+import { formatTime } from './timecode';
+import { CUE_CHUNK_SIZE, WORKER_CUE_THRESHOLD, runWorkerTask, supportsWorkers } from './worker';
+
+/**
+ * Quality control for subtitle deliverables: reading speed, layout, timing
+ * and completeness of every caption.
+ */
+
+export type QCRuleId =
+  | 'cps'
+  | 'line-length'
+  | 'line-count'
+  | 'min-duration'
+  | 'max-duration'
+  | 'overlap'
+  | 'gap'
+  | 'empty'
+  | 'untranslated'
+  | 'unchanged';
+
+export type QCSeverity = 'error' | 'warning';
+
+export interface QCConfig {
+  maxCps: number;
+  maxLineLength: number;
+  maxLines: number;
+  minDuration: number; // ms
+  maxDuration: number; // ms
+  minGapFrames: number;
+  fps: number;
+  rules: Record<QCRuleId, boolean>;
+}
+
+export interface QCCue {
+  index: number;
+  start: number;
+  end: number;
+  // Canonical markup of the text being delivered
+  content: string;
+  // Source text, used to detect untranslated lines
+  original?: string;
+}
+
+export interface QCIssue {
+  index: number;
+  rule: QCRuleId;
+  severity: QCSeverity;
+  message: string;
+}
+
+export const QC_RULES: Record<QCRuleId, { label: string; severity: QCSeverity }> = {
+  cps: { label: 'Reading speed', severity: 'warning' },
+  'line-length': { label: 'Line length', severity: 'warning' },
+  'line-count': { label: 'Too many lines', severity: 'error' },
+  'min-duration': { label: 'Too short', severity: 'warning' },
+  'max-duration': { label: 'Too long', severity: 'warning' },
+  overlap: { label: 'Overlap', severity: 'error' },
+  gap: { label: 'Short gap', severity: 'warning' },
+  empty: { label: 'Empty cue', severity: 'error' },
+  untranslated: { label: 'Untranslated', severity: 'error' },
+  // Names, "OK" and brands are rightly left as they are
+  unchanged: { label: 'Same as source', severity: 'warning' },
+};
+
+// Common broadcast defaults (17 cps, 42 characters, 2 lines, 2 frame gap)
+export const DEFAULT_QC_CONFIG: QCConfig = {
+  maxCps: 17,
+  maxLineLength: 42,
+  maxLines: 2,
+  minDuration: 833,
+  maxDuration: 7000,
+  minGapFrames: 2,
+  fps: 25,
+  rules: {
+    cps: true,
+    'line-length': true,
+    'line-count': true,
+    'min-duration': true,
+    'max-duration': true,
+    overlap: true,
+    gap: true,
+    empty: true,
+    untranslated: true,
+    unchanged: true,
+  },
+};
+
+const round = (value: number, digits = 1): number =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+// The cues in time order and a check of one of them against its neighbour
+function createLinter(cues: QCCue[], config: QCConfig) {
+  const issues: QCIssue[] = [];
+  const add = (index: number, rule: QCRuleId, message: string) => {
+    if (config.rules[rule]) {
+      issues.push({ index, rule, severity: QC_RULES[rule].severity, message });
+    }
+  };
+
+  const sorted = [...cues].sort((a, b) => a.start - b.start || a.index - b.index);
+  const minGap = (config.minGapFrames * 1000) / config.fps;
+
+  const check = (cue: QCCue, i: number) => {
+    const text = stripMarkup(cue.content);
+    const lines = text.split('\n');
+    const duration = cue.end - cue.start;
+
+    if (!text.trim()) {
+      if (cue.original !== undefined && stripMarkup(cue.original).trim()) {
+        add(cue.index, 'untranslated', 'No translation');
+      } else {
+        add(cue.index, 'empty', 'Cue has no text');
+      }
+    } else {
+      if (
+        cue.original !== undefined &&
+        /\p{L}{2}/u.test(text) &&
+        text.trim().toLowerCase() === stripMarkup(cue.original).trim().toLowerCase()
+      ) {
+        add(cue.index, 'unchanged', 'Same as the original text');
+      }
+
+      const characters = lines.join('').length;
+      const cps = duration > 0 ? characters / (duration / 1000) : Infinity;
+      if (cps > config.maxCps) {
+        add(
+          cue.index,
+          'cps',
+          `${Number.isFinite(cps) ? round(cps) : '∞'} characters per second (max ${config.maxCps})`
+        );
+      }
+
+      const longest = Math.max(...lines.map((line) => line.length));
+      if (longest > config.maxLineLength) {
+        add(
+          cue.index,
+          'line-length',
+          `${longest} characters on a line (max ${config.maxLineLength})`
+        );
+      }
+
+      if (lines.length > config.maxLines) {
+        add(cue.index, 'line-count', `${lines.length} lines (max ${config.maxLines})`);
+      }
+    }
+
+    if (duration < config.minDuration) {
+      add(
+        cue.index,
+        'min-duration',
+        `Shown for ${round(duration / 1000, 2)}s (min ${round(config.minDuration / 1000, 2)}s)`
+      );
+    } else if (duration > config.maxDuration) {
+      add(
+        cue.index,
+        'max-duration',
+        `Shown for ${round(duration / 1000, 2)}s (max ${round(config.maxDuration / 1000, 2)}s)`
+      );
+    }
+
+    const next = sorted[i + 1];
+    if (next) {
+      const gap = next.start - cue.end;
+      if (gap < 0) {
+        add(cue.index, 'overlap', `Overlaps line ${next.index} by ${-gap}ms`);
+      } else if (gap < minGap && gap > 0) {
+        add(
+          cue.index,
+          'gap',
+          `${round((gap * config.fps) / 1000)} frame gap before line ${next.index} (min ${config.minGapFrames})`
+        );
+      }
+    }
+  };
+
+  return { sorted, check, issues: () => issues.sort((a, b) => a.index - b.index) };
+}
+
+/**
+ * Check every cue against the enabled rules. Issues are ordered by cue.
+ */
+export function lintSubtitles(
+  cues: QCCue[],
+  config: QCConfig = DEFAULT_QC_CONFIG
+): QCIssue[] {
+  const { sorted, check, issues } = createLinter(cues, config);
+  sorted.forEach(check);
+  return issues();
+}
+
+/**
+ * lintSubtitles a chunk of cues at a time. `afterChunk` is awaited after
+ * each one with the cues done so far, e.g. to report progress and let a
+ * cancel through.
+ */
+export async function lintSubtitlesInChunks(
+  cues: QCCue[],
+  config: QCConfig,
+  afterChunk: (done: number, total: number) => Promise<void>
+): Promise<QCIssue[]> {
+  const { sorted, check, issues } = createLinter(cues, config);
+  for (let offset = 0; offset < sorted.length; offset += CUE_CHUNK_SIZE) {
+    sorted.slice(offset, offset + CUE_CHUNK_SIZE).forEach((cue, i) => check(cue, offset + i));
+    await afterChunk(Math.min(offset + CUE_CHUNK_SIZE, sorted.length), sorted.length);
+  }
+  return issues();
+}
+
+// Number of issues per rule
+export function summarizeIssues(issues: QCIssue[]): Record<QCRuleId, number> {
+  const summary = Object.fromEntries(
+    Object.keys(QC_RULES).map((rule) => [rule, 0])
+  ) as Record<QCRuleId, number>;
+  for (const issue of issues) {
+    summary[issue.rule]++;
+  }
+  return summary;
+}
+
+// A saved or hand-written config, with the defaults for what it leaves out
+export function mergeQCConfig(saved: Partial<QCConfig>): QCConfig {
+  return {
+    ...DEFAULT_QC_CONFIG,
+    ...saved,
+    rules: { ...DEFAULT_QC_CONFIG.rules, ...saved.rules },
+  };
+}
+
+/**
+ * CSV report of the issues, one row per issue, for delivery checks.
+ */
+export function createQCReport(issues: QCIssue[], cues: QCCue[]): string {
+  const byIndex = new Map(cues.map((cue) => [cue.index, cue]));
+  const escapeCSV = (value: string): string =>
+    /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+  const rows = issues.map((issue) => {
+    const cue = byIndex.get(issue.index);
+    return [
+      issue.index.toString(),
+      cue ? formatTime(cue.start) : '',
+      cue ? formatTime(cue.end) : '',
+      issue.severity,
+      QC_RULES[issue.rule].label,
+      issue.message,
+      cue ? stripMarkup(cue.content).replace(/\n/g, ' / ') : '',
+    ]
+      .map(escapeCSV)
+      .join(',');
+  });
+
+  return ['Line,Start,End,Severity,Rule,Issue,Text', ...rows].join('\r\n') + '\r\n';
+}
+
+// Browser-side helpers for the subtitle table
+
+const STORAGE_KEY = 'qc_config';
+
+export const getQCConfig = (): QCConfig => {
+  try {
+    return mergeQCConfig(JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}'));
+  } catch {
+    return DEFAULT_QC_CONFIG;
+  }
+};
+
+export const saveQCConfig = (config: QCConfig): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
+
+// Current cues of the table, with the translated text
+export function collectTableCues(): QCCue[] {
+  return getLines().map((line, i) => ({
+    index: i + 1,
+    start: line.start,
+    end: line.end,
+    content: line.translation,
+    original: line.content,
+  }));
+}
+
+/**
+ * Lint the table, note the issues on each line and announce the result
+ * with a `qc:complete` event for the summary panel. Long tables are linted
+ * by the subtitle worker.
+ */
+export async function runTableQC(): Promise<QCIssue[]> {
+  const cues = collectTableCues();
+  const config = getQCConfig();
+  const issues =
+    cues.length > WORKER_CUE_THRESHOLD && supportsWorkers()
+      ? await runWorkerTask({ type: 'qc', cues, config }).catch((error) => {
+          console.error('Worker QC failed:', error);
+          return lintSubtitles(cues, config);
+        })
+      : lintSubtitles(cues, config);
+
+  const lines = getLines();
+  for (const line of lines) line.issues = undefined;
+  for (const issue of issues) {
+    const line = lines[issue.index - 1];
+    if (line) line.issues = [...(line.issues || []), issue];
+  }
+  refreshLines();
+
+  document.dispatchEvent(
+    new CustomEvent('qc:complete', { detail: { issues, cues } })
+  );
+  return issues;
+}
+
+// Mark each row with the issues of its line from the last check
+export function initTableQC(): void {
+  document.addEventListener('row:render', (event) => {
+    const { row, line } = (event as RowRenderEvent).detail;
+    const issues = line.issues || [];
+    const hasError = issues.some((issue) => issue.severity === 'error');
+    row.classList.toggle('table-danger', hasError);
+    row.classList.toggle('table-warning', !hasError && issues.length > 0);
+
+    const list = rowField(row, 'qc');
+    if (!list || issues.length === 0) return;
+    list.classList.remove('d-none');
+    list.replaceChildren(
+      ...issues.map((issue) => {
+        const badge = document.createElement('span');
+        badge.className = `badge me-1 ${
+          issue.severity === 'error' ? 'text-bg-danger' : 'text-bg-warning'
+        }`;
+        badge.textContent = QC_RULES[issue.rule].label;
+        badge.title = issue.message;
+        return badge;
+      })
+    );
+  });
+}
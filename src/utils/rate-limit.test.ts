@@ -0,0 +1,25 @@
+import { describe, expect, test } from 'bun:test';
+import { MemoryRateLimitStore, checkRateLimit, routeLimit } from './rate-limit';
+
+describe('checkRateLimit', () => {
+  test('counts a path with a trailing slash against its route', async () => {
+    const store = new MemoryRateLimitStore();
+    const limit = routeLimit('/api/v1/translate/');
+    const now = 1_700_000_000_000;
+    const paths = ['/api/v1/translate', '/api/v1/translate/', '/api/v1/translate//'];
+    const results = [];
+    for (let i = 0; i < limit.limit + 1; i++) {
+      results.push(await checkRateLimit(store, '203.0.113.7', paths[i % paths.length], limit, now));
+    }
+    expect(results.slice(0, limit.limit).every((result) => result.allowed)).toBe(true);
+    expect(results[limit.limit].allowed).toBe(false);
+  });
+
+  test('keeps separate counts for separate clients', async () => {
+    const store = new MemoryRateLimitStore();
+    const limit = { limit: 1, windowSeconds: 60 };
+    expect((await checkRateLimit(store, 'a', '/api/upload/', limit, 0)).allowed).toBe(true);
+    expect((await checkRateLimit(store, 'b', '/api/upload', limit, 0)).allowed).toBe(true);
+    expect((await checkRateLimit(store, 'a', '/api/upload', limit, 0)).allowed).toBe(false);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Rate limiting of the API routes, applied by src/middleware.ts. Counts are
+ * kept per client and route in fixed windows, in a store that is either in
+ * memory (local development, tests) or in Durable Objects (production),
+ * where isolates don't share memory.
+ */
+
+export interface RouteLimit {
+  // Requests allowed per window
+  limit: number;
+  windowSeconds: number;
+  // Refused while the counts can't be read, the route calls a paid model
+  failClosed?: boolean;
+}
+
+// Per route, other API routes get DEFAULT_LIMIT
+export const ROUTE_LIMITS: Record<string, RouteLimit> = {
+  '/api/upload': { limit: 10, windowSeconds: 60 },
+  '/api/translate': { limit: 60, windowSeconds: 60, failClosed: true },
+  '/api/aioptimize': { limit: 60, windowSeconds: 60, failClosed: true },
+  '/api/download': { limit: 30, windowSeconds: 60 },
+  '/api/stream-download': { limit: 10, windowSeconds: 60 },
+  '/api/download-zip': { limit: 10, windowSeconds: 60 },
+  // Whole files, translate and optimize make many model requests each
+  '/api/v1/convert': { limit: 30, windowSeconds: 60 },
+  '/api/v1/translate': { limit: 5, windowSeconds: 60, failClosed: true },
+  '/api/v1/optimize': { limit: 5, windowSeconds: 60, failClosed: true },
+};
+
+export const DEFAULT_LIMIT: RouteLimit = { limit: 60, windowSeconds: 60 };
+
+// The route of a request path, `/api/translate/` is `/api/translate`
+export const normalizeRoute = (pathname: string): string => pathname.replace(/\/+$/, '');
+
+export const routeLimit = (pathname: string): RouteLimit =>
+  ROUTE_LIMITS[normalizeRoute(pathname)] ?? DEFAULT_LIMIT;
+
+export interface RateLimitStore {
+  /**
+   * Count a request in the window starting at `windowStart` (ms) and return
+   * the count including it. Entries may be dropped once the window is over.
+   */
+  increment(key: string, windowStart: number, windowSeconds: number): Promise<number>;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the window resets
+  reset: number;
+  windowSeconds: number;
+}
+
+/**
+ * Counts in a Map, for `astro dev` and tests. Ended windows are dropped
+ * while counting, there are no timers.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counts = new Map<string, { count: number; expiresAt: number }>();
+
+  async increment(key: string, windowStart: number, windowSeconds: number): Promise<number> {
+    for (const [stored, entry] of this.counts) {
+      if (entry.expiresAt <= windowStart) this.counts.delete(stored);
+    }
+
+    const id = `${key}:${windowStart}`;
+    const entry = this.counts.get(id) ?? { count: 0, expiresAt: windowStart + windowSeconds * 1000 };
+    entry.count++;
+    this.counts.set(id, entry);
+    return entry.count;
+  }
+}
+
+// The parts of a Durable Object binding and state the counter uses
+export interface DurableObjectNamespaceLike {
+  idFromName(name: string): unknown;
+  get(id: any): { fetch(input: string, init?: RequestInit): Promise<Response> };
+}
+
+export interface DurableObjectStateLike {
+  storage: {
+    get<T>(key: string): Promise<T | undefined>;
+    put<T>(key: string, value: T): Promise<void>;
+    deleteAll(): Promise<void>;
+    setAlarm(scheduledTime: number): Promise<void>;
+  };
+}
+
+/**
+ * Durable Object holding the count of one client and route. An object
+ * handles one request at a time, so concurrent requests are all counted,
+ * unlike a read and write of a KV key. Exported by src/worker.ts.
+ */
+export class RateLimitCounter {
+  constructor(private state: DurableObjectStateLike) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const { windowStart, windowSeconds } = (await request.json()) as {
+      windowStart: number;
+      windowSeconds: number;
+    };
+    const stored = await this.state.storage.get<{ windowStart: number; count: number }>('window');
+    const count = stored?.windowStart === windowStart ? stored.count + 1 : 1;
+    await this.state.storage.put('window', { windowStart, count });
+    if (count === 1) await this.state.storage.setAlarm(windowStart + windowSeconds * 1000);
+    return Response.json({ count });
+  }
+
+  // Nothing is kept once the window is over
+  async alarm(): Promise<void> {
+    await this.state.storage.deleteAll();
+  }
+}
+
+/**
+ * Counts in RateLimitCounter Durable Objects, one per client and route,
+ * shared by every isolate and location.
+ */
+export class DurableObjectRateLimitStore implements RateLimitStore {
+  constructor(private namespace: DurableObjectNamespaceLike) {}
+
+  async increment(key: string, windowStart: number, windowSeconds: number): Promise<number> {
+    const counter = this.namespace.get(this.namespace.idFromName(key));
+    const response = await counter.fetch('https://rate-limit/increment', {
+      method: 'POST',
+      body: JSON.stringify({ windowStart, windowSeconds }),
+    });
+    if (!response.ok) {
+      throw new Error(`Rate limit counter answered ${response.status}`);
+    }
+    return ((await response.json()) as { count: number }).count;
+  }
+}
+
+/**
+ * Count a request of `client` to a route and tell whether it is allowed.
+ * The count is kept under the route routeLimit looks up, so a trailing
+ * slash doesn't get a budget of its own.
+ */
+export async function checkRateLimit(
+  store: RateLimitStore,
+  client: string,
+  route: string,
+  { limit, windowSeconds }: RouteLimit,
+  now = Date.now()
+): Promise<RateLimitResult> {
+  const windowMs = windowSeconds * 1000;
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const count = await store.increment(`${normalizeRoute(route)}:${client}`, windowStart, windowSeconds);
+  return {
+    allowed: count <= limit,
+    limit,
+    remaining: Math.max(0, limit - count),
+    reset: Math.max(1, Math.ceil((windowStart + windowMs - now) / 1000)),
+    windowSeconds,
+  };
+}
+
+/**
+ * RateLimit-* headers from the IETF draft, with Retry-After once the limit
+ * is reached.
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.reset),
+    'RateLimit-Policy': `${result.limit};w=${result.windowSeconds}`,
+    ...(result.allowed ? {} : { 'Retry-After': String(result.reset) }),
+  };
+}
+
+// Address of the client, as set by Cloudflare or a proxy in development
+export function clientAddress(request: Request): string {
+  return (
+    request.headers.get('cf-connecting-ip') ||
+    request.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+    'unknown'
+  );
+}
@@ -0,0 +1,168 @@
+import { sanitizeMarkup } from './markup';
+
+/**
+ * Line breaking of subtitle text. A text that fits on one line stays on
+ * one, longer texts are broken into as few lines as the length allows,
+ * balanced and at the most natural points: after punctuation rather than
+ * inside a phrase, never right after an article or a preposition.
+ */
+
+export interface ReflowOptions {
+  maxLineLength: number;
+  maxLines: number;
+}
+
+// A word and its markup; only the text counts towards the line length
+interface Word {
+  raw: string;
+  length: number;
+}
+
+// Scripts written without spaces are broken between any two characters
+const NO_SPACE_SCRIPTS = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+
+// Lines ending with one of these read badly, the word belongs to the next line
+const WEAK_LINE_ENDINGS = new Set([
+  // English
+  'a', 'an', 'the', 'of', 'to', 'in', 'on', 'at', 'by', 'for', 'with', 'from', 'and', 'or', 'but', 'my', 'your', 'his', 'her', 'our', 'their', 'its',
+  // Spanish, Portuguese, Italian, French
+  'el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'de', 'del', 'al', 'y', 'o', 'que', 'en', 'con', 'por', 'para', 'su', 'sus', 'mi', 'tu',
+  'os', 'as', 'um', 'uma', 'do', 'da', 'dos', 'das', 'no', 'na', 'e', 'com', 'il', 'lo', 'gli', 'le', 'di', 'della', 'che', 'per',
+  'les', 'une', 'des', 'du', 'et', 'ou', 'au', 'aux', 'ce', 'mon', 'ma', 'ton', 'ta', 'son', 'sa',
+  // German, Dutch
+  'der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einen', 'und', 'oder', 'mit', 'von', 'zu', 'het', 'een', 'van', 'met', 'en',
+]);
+
+// Weights of the break costs, in squared characters of imbalance
+const OVERFLOW_COST = 1000;
+const WEAK_ENDING_COST = 60;
+const SENTENCE_END_BONUS = 80;
+const CLAUSE_END_BONUS = 40;
+
+const MARKUP = /<[^<>]*>|\{[^{}]*\}/g;
+const IS_MARKUP = /^(?:<[^<>]*>|\{[^{}]*\})$/;
+
+const plainLength = (raw: string): number => raw.replace(MARKUP, '').length;
+
+// Split into words, keeping tags attached to the word they touch
+function splitWords(text: string, byCharacter: boolean): Word[] {
+  const raws: string[] = [];
+  const pieces = text.match(/<[^<>]*>|\{[^{}]*\}|\s+|[^\s<{]+|[<{]/g) ?? [];
+  let current = '';
+  const flush = () => {
+    if (current) raws.push(current);
+    current = '';
+  };
+  for (const piece of pieces) {
+    if (/^\s+$/.test(piece)) {
+      flush();
+    } else if (byCharacter && !IS_MARKUP.test(piece)) {
+      for (const char of piece) {
+        current += char;
+        flush();
+      }
+    } else {
+      current += piece;
+    }
+  }
+  flush();
+
+  // Tags standing alone go with the next word when they open, else the previous one
+  const words: Word[] = [];
+  let pending = '';
+  for (const raw of raws) {
+    if (plainLength(raw) > 0) {
+      words.push({ raw: pending + raw, length: plainLength(raw) });
+      pending = '';
+    } else if (raw.startsWith('</') && words.length > 0) {
+      words[words.length - 1].raw += raw;
+    } else {
+      pending += raw;
+    }
+  }
+  if (pending) {
+    if (words.length > 0) words[words.length - 1].raw += pending;
+    else words.push({ raw: pending, length: 0 });
+  }
+  return words;
+}
+
+// Cost of ending a line after `word`
+function breakCost(word: Word): number {
+  const plain = word.raw.replace(MARKUP, '');
+  if (/[.!?…。！？]["'»”)]*$/.test(plain)) return -SENTENCE_END_BONUS;
+  if (/[,;:、，；：]["'»”)]*$/.test(plain)) return -CLAUSE_END_BONUS;
+  if (WEAK_LINE_ENDINGS.has(plain.toLowerCase())) return WEAK_ENDING_COST;
+  return 0;
+}
+
+/**
+ * Break words into `lines` lines with the lowest total cost: lines close
+ * to the same length, over-long lines heavily penalized, and the break
+ * costs above.
+ */
+function breakWords(words: Word[], lines: number, options: ReflowOptions, joiner: string): string[] {
+  const width = (from: number, to: number): number =>
+    words.slice(from, to).reduce((sum, word) => sum + word.length, 0) + joiner.length * (to - from - 1);
+  const target = width(0, words.length) / lines;
+  const lineCost = (from: number, to: number): number => {
+    const length = width(from, to);
+    return (length - target) ** 2 + Math.max(0, length - options.maxLineLength) * OVERFLOW_COST;
+  };
+
+  // best[k][i]: cheapest way to put the first i words on k lines
+  const best = Array.from({ length: lines + 1 }, () => new Array<number>(words.length + 1).fill(Infinity));
+  const from = Array.from({ length: lines + 1 }, () => new Array<number>(words.length + 1).fill(0));
+  best[0][0] = 0;
+  for (let k = 1; k <= lines; k++) {
+    for (let i = k; i <= words.length; i++) {
+      for (let j = k - 1; j < i; j++) {
+        if (best[k - 1][j] === Infinity) continue;
+        const cost = best[k - 1][j] + lineCost(j, i) + (k < lines ? breakCost(words[i - 1]) : 0);
+        if (cost < best[k][i]) {
+          best[k][i] = cost;
+          from[k][i] = j;
+        }
+      }
+    }
+  }
+
+  const result: string[] = [];
+  for (let k = lines, i = words.length; k > 0; i = from[k][i], k--) {
+    result.unshift(words.slice(from[k][i], i).map((word) => word.raw).join(joiner));
+  }
+  return result;
+}
+
+/**
+ * Break a subtitle text into lines of at most `maxLineLength` characters,
+ * using up to `maxLines` lines. Dialogue, lines starting with a dash, keeps
+ * one speaker per line. Text that can't fit is broken as evenly as the
+ * lines allow and left for QC to report.
+ */
+export function reflowText(text: string, options: ReflowOptions): string {
+  const lines = text.split('\n').map((line) => line.trim()).filter(Boolean);
+  const isDialogue = lines.length > 1 && lines.every((line) => /^-/.test(line.replace(MARKUP, '')));
+  if (isDialogue) return sanitizeMarkup(lines.join('\n'));
+
+  const joined = lines.join(' ');
+  const byCharacter = !/\s/.test(joined.replace(MARKUP, '')) && NO_SPACE_SCRIPTS.test(joined);
+  const joiner = byCharacter ? '' : ' ';
+  const words = splitWords(joined, byCharacter);
+  if (words.length === 0) return sanitizeMarkup(text);
+
+  const total = words.reduce((sum, word) => sum + word.length, 0) + joiner.length * (words.length - 1);
+  const count = Math.min(
+    words.length,
+    Math.max(1, options.maxLines),
+    Math.max(1, Math.ceil(total / Math.max(1, options.maxLineLength)))
+  );
+  if (count === 1) return sanitizeMarkup(joined);
+
+  // One more line when the fewest possible can't be balanced under the limit
+  let broken = breakWords(words, count, options, joiner);
+  if (count < options.maxLines && count < words.length && broken.some((line) => plainLength(line) > options.maxLineLength)) {
+    broken = breakWords(words, count + 1, options, joiner);
+  }
+  return sanitizeMarkup(broken.join('\n'));
+}
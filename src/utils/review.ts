@@ -0,0 +1,181 @@
+import type { CueSplice } from './cues';
+import { mapIndex } from './cues';
+import { diffWords } from './diff';
+import { highlightGlossaryViolations } from './glossary';
+import { applyTextChanges } from './history';
+import { notifySubtitlesChanged } from './project';
+import type { RowRenderEvent, TableLine } from './table';
+import { getLine, refreshLines, rowField } from './table';
+
+/**
+ * Review of AI optimizer suggestions. Suggestions are shown under each line
+ * as a word diff against the current translation, and only reach the table
+ * once accepted.
+ */
+
+// Browser-side helpers for the subtitle table
+
+// Suggested text by line index, until accepted or rejected
+const suggestions = new Map<number, string>();
+
+export const pendingSuggestions = (): number => suggestions.size;
+
+export const hasSuggestion = (index: number): boolean => suggestions.has(index);
+
+// Tells the toolbar how many suggestions are left, and the autosave which
+function announce(): void {
+  document.dispatchEvent(
+    new CustomEvent('review:change', {
+      detail: { pending: suggestions.size, suggestions: Object.fromEntries(suggestions) },
+    })
+  );
+}
+
+function renderDiff(before: string, after: string): HTMLElement {
+  const diff = document.createElement('div');
+  diff.className = 'review-diff';
+  for (const part of diffWords(before, after)) {
+    if (part.type === 'equal') {
+      diff.append(part.text);
+      continue;
+    }
+    const element = document.createElement(part.type === 'insert' ? 'ins' : 'del');
+    element.textContent = part.text;
+    diff.append(element);
+  }
+  return diff;
+}
+
+function reviewButton(action: 'accept' | 'reject'): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = `btn btn-sm py-0 ${action === 'accept' ? 'btn-outline-success ms-auto' : 'btn-outline-secondary'}`;
+  button.dataset.review = action;
+  const icon = document.createElement('i');
+  icon.className = `bi ${action === 'accept' ? 'bi-check-lg' : 'bi-x-lg'}`;
+  button.append(icon, action === 'accept' ? ' Accept' : ' Reject');
+  return button;
+}
+
+// Show the suggestion for a line in its row, the box stays hidden without one
+function renderSuggestion(row: HTMLTableRowElement, index: number, line: TableLine): void {
+  const box = rowField(row, 'review');
+  const suggestion = suggestions.get(index);
+  if (!box || suggestion === undefined) return;
+
+  const header = document.createElement('div');
+  header.className = 'd-flex align-items-center gap-2 mb-1';
+  const badge = document.createElement('span');
+  badge.className = 'badge text-bg-info';
+  badge.textContent = 'AI suggestion';
+  header.append(badge, reviewButton('accept'), reviewButton('reject'));
+
+  box.classList.remove('d-none');
+  box.replaceChildren(header, renderDiff(line.translation, suggestion));
+}
+
+/**
+ * Show suggestions for review, replacing earlier ones for the same lines.
+ * Suggestions identical to the current translation are dropped. Returns the
+ * number of lines waiting for review.
+ */
+export function showSuggestions(optimized: { index: number; content: string }[]): number {
+  for (const { index, content } of optimized) {
+    const line = getLine(index);
+    if (!line) continue;
+    if (line.translation === content) {
+      suggestions.delete(index);
+    } else {
+      suggestions.set(index, content);
+    }
+  }
+  refreshLines(optimized.map(({ index }) => index));
+  announce();
+  return suggestions.size;
+}
+
+/**
+ * Apply suggestions to the table as one undoable step, all of them by
+ * default. Returns the number of lines changed.
+ */
+export function acceptSuggestions(indices: number[] = [...suggestions.keys()]): number {
+  const updates = indices.flatMap((index) => {
+    const content = suggestions.get(index);
+    return content === undefined ? [] : [{ index, content }];
+  });
+  const label = updates.length === 1 ? `AI suggestion, line ${updates[0].index}` : 'AI suggestions';
+  const changes = applyTextChanges(label, updates);
+
+  for (const { index } of updates) {
+    suggestions.delete(index);
+  }
+  refreshLines(updates.map(({ index }) => index));
+  for (const change of changes) {
+    const line = getLine(change.index);
+    if (line) line.aiChanged = true;
+  }
+  if (changes.length > 0) {
+    notifySubtitlesChanged({ optimized: true });
+    highlightGlossaryViolations(changes.map((change) => change.index));
+  }
+  announce();
+  return changes.length;
+}
+
+// Drop suggestions, all of them by default. Returns how many were dropped.
+export function rejectSuggestions(indices: number[] = [...suggestions.keys()]): number {
+  const rejected = indices.filter((index) => suggestions.delete(index));
+  refreshLines(rejected);
+  announce();
+  return rejected.length;
+}
+
+/**
+ * Accept and reject buttons under the lines, and diffs kept up to date
+ * while the translation is edited during the review.
+ */
+export function initReview(): void {
+  document.addEventListener('row:render', (event) => {
+    const { row, index, line } = (event as RowRenderEvent).detail;
+    renderSuggestion(row, index, line);
+  });
+  document.addEventListener('click', (event) => {
+    const button = (event.target as HTMLElement).closest<HTMLButtonElement>('[data-review]');
+    const index = Number(button?.closest('tr')?.dataset.index);
+    if (!button || Number.isNaN(index)) return;
+    if (button.dataset.review === 'accept') {
+      acceptSuggestions([index]);
+    } else {
+      rejectSuggestions([index]);
+    }
+  });
+
+  const refresh = (index: number) => {
+    const suggestion = suggestions.get(index);
+    if (suggestion === undefined) return;
+    // Edited into the suggested text, nothing left to review
+    if (getLine(index)?.translation === suggestion) {
+      rejectSuggestions([index]);
+    } else {
+      refreshLines([index]);
+    }
+  };
+  document.addEventListener('input', (event) => {
+    const target = event.target as HTMLElement;
+    if (target.matches('.editable-cell')) refresh(Number(target.closest('tr')?.dataset.index));
+  });
+  // Undo, redo and replace change lines without input events
+  document.addEventListener('subtitles:change', () => [...suggestions.keys()].forEach(refresh));
+  // Suggestions follow their lines, and are dropped with split or merged ones
+  document.addEventListener('cues:change', (event) => {
+    const { splices } = (event as CustomEvent<{ splices: CueSplice[] }>).detail;
+    const moved = [...suggestions].flatMap(([index, content]) => {
+      const target = mapIndex(index, splices);
+      return target === undefined ? [] : [[target, content] as const];
+    });
+    suggestions.clear();
+    for (const [index, content] of moved) suggestions.set(index, content);
+    refreshLines();
+    announce();
+  });
+}
@@ -0,0 +1,214 @@
+import { dropEmptyTags, restoreLeadingMarkup, sanitizeMarkup, stripMarkup } from './markup';
+
+/**
+ * Subtitles for the deaf and hard of hearing (SDH) carry annotations
+ * besides the dialogue: sound cues, speaker labels, song lyrics and
+ * annotations in capitals. They are found and removed here, so the SDH and
+ * the regular track can be delivered from the same file.
+ */
+
+export type SDHElement = 'sounds' | 'speakers' | 'music' | 'caps';
+
+export const SDH_ELEMENTS: Record<SDHElement, string> = {
+  sounds: 'Sound cues, [MUSIC] or (door slams) starting a line',
+  speakers: 'Speaker labels, JOHN:',
+  music: 'Lyrics between music notes',
+  caps: 'Lines in capitals, GUNSHOT, shouted lines too',
+};
+
+// What removing "all" annotations removes. Lines in capitals can't be told
+// apart from shouted dialogue, they are only removed when asked for.
+export const DEFAULT_SDH_ELEMENTS: SDHElement[] = ['sounds', 'speakers', 'music'];
+
+export const isSDHElement = (value: unknown): value is SDHElement =>
+  typeof value === 'string' && Object.hasOwn(SDH_ELEMENTS, value);
+
+// Anything with a text, a caption or a cue sent for download
+export interface SDHCue {
+  type?: string;
+  index?: number;
+  content?: string;
+  text?: string;
+  // Source text of bilingual downloads
+  original?: string;
+}
+
+// Tags and blocks a pattern may have to look past
+const TAGS = String.raw`(?:<[^<>]*>|\{[^{}]*\})*`;
+const DASH = /^[-–—]\s*/;
+
+// With the spaces before it, so no space is left before a colon or a comma
+const BRACKET_CUE = /[ \t]*\[[^[\]\n]*\p{L}[^[\]\n]*\]/gu;
+// Parentheses are asides in the middle of a line, "I (really) mean it"
+const LEADING_CUE = new RegExp(String.raw`^(\s*[-–—]?\s*${TAGS})(?:\([^()\n]*\p{L}[^()\n]*\)\s*)+`, 'u');
+// JOHN:, MAN #2:, DR. SMITH (on phone): followed by a capital, so that
+// "USA: the land of the free" is left alone
+const SPEAKER_LABEL = new RegExp(
+  String.raw`^(\s*[-–—]?\s*${TAGS})\p{Lu}[\p{Lu}\p{M}\d '’.#&-]*[\p{Lu}\p{M}\d.](?:\s*\([^()]*\))?(${TAGS})\s*:(?!\d)\s*(?!\s|${TAGS}\p{Ll})`,
+  'u'
+);
+const MUSIC_NOTE = /[♪♫]/;
+// A whole line in capitals, at least three letters and no punctuation
+const CAPS_LINE = /^[\p{Lu}\p{M}\s'’-]+$/u;
+
+const plainOf = (line: string): string => stripMarkup(line).replace(DASH, '').trim();
+
+const isCapsLine = (line: string): boolean => {
+  const plain = plainOf(line);
+  return CAPS_LINE.test(plain) && (plain.match(/\p{Lu}/gu)?.length ?? 0) >= 3;
+};
+
+// Lyrics lines, including the lines of a song that runs over several
+function dropLyrics(lines: string[]): string[] {
+  let inSong = false;
+  return lines.filter((line) => {
+    const plain = plainOf(line);
+    if (!MUSIC_NOTE.test(plain)) return !inSong;
+    const opens = MUSIC_NOTE.test(plain[0]);
+    const closes = plain.length > 1 && MUSIC_NOTE.test(plain[plain.length - 1]);
+    inSong = inSong ? !closes : opens && !closes;
+    return false;
+  });
+}
+
+/**
+ * Remove SDH elements from canonical markup. Dialogue left with a single
+ * speaker loses its dash, and an empty string is returned when nothing but
+ * annotations was there.
+ */
+export function stripSDH(content: string, elements: SDHElement[]): string {
+  let lines = content.split('\n');
+  const isDialogue = lines.filter((line) => DASH.test(stripMarkup(line).trim())).length > 1;
+
+  if (elements.includes('music')) lines = dropLyrics(lines);
+  lines = lines.map((line) => {
+    let result = line;
+    // Labels first, they may end in a sound cue such as (on phone)
+    if (elements.includes('speakers')) result = result.replace(SPEAKER_LABEL, '$1$2');
+    if (elements.includes('sounds')) result = result.replace(BRACKET_CUE, '').replace(LEADING_CUE, '$1');
+    if (elements.includes('caps') && isCapsLine(result)) result = '';
+    return result.replace(/[ \t]{2,}/g, ' ').trim();
+  });
+  lines = lines.filter((line) => plainOf(line) !== '');
+  if (isDialogue && lines.length === 1) lines[0] = lines[0].replace(new RegExp(`^(${TAGS})[-–—]\\s*`), '$1');
+
+  const result = dropEmptyTags(sanitizeMarkup(lines.join('\n')));
+  // A leading {\an8} on a removed line still positions the rest
+  return stripMarkup(result).trim() ? restoreLeadingMarkup(content, result) : '';
+}
+
+// The SDH elements in a text
+export function detectSDH(content: string): SDHElement[] {
+  const normalized = stripSDH(content, []);
+  return (Object.keys(SDH_ELEMENTS) as SDHElement[]).filter(
+    (element) => stripSDH(content, [element]) !== normalized
+  );
+}
+
+// Cues with each SDH element
+export function countSDH(cues: SDHCue[]): Record<SDHElement, number> {
+  const counts: Record<SDHElement, number> = { sounds: 0, speakers: 0, music: 0, caps: 0 };
+  for (const cue of cues) {
+    for (const element of detectSDH(cue.content ?? cue.text ?? '')) counts[element]++;
+  }
+  return counts;
+}
+
+// Files written all in capitals keep their capitals
+function elementsFor(cues: SDHCue[], elements: SDHElement[]): SDHElement[] {
+  const hasLowercase = cues.some((cue) => /\p{Ll}/u.test(cue.content ?? cue.text ?? ''));
+  return hasLowercase ? elements : elements.filter((element) => element !== 'caps');
+}
+
+/**
+ * Remove SDH elements from every cue and drop the cues left empty, which
+ * renumbers the rest.
+ */
+export function processSDH<T extends SDHCue>(
+  cues: T[],
+  elements: SDHElement[]
+): { cues: T[]; changed: number; dropped: number } {
+  if (elements.length === 0) return { cues, changed: 0, dropped: 0 };
+  const strip = elementsFor(cues, elements);
+
+  let changed = 0;
+  let dropped = 0;
+  const result: T[] = [];
+  for (const cue of cues) {
+    if (cue.type === 'meta') {
+      result.push(cue);
+      continue;
+    }
+    const content = cue.content ?? cue.text ?? '';
+    const stripped = stripSDH(content, strip);
+    const original = cue.original === undefined ? undefined : stripSDH(cue.original, strip);
+    if (stripped === sanitizeMarkup(content) && original === (cue.original && sanitizeMarkup(cue.original))) {
+      result.push(cue);
+      continue;
+    }
+    if (!stripped && !original && (stripMarkup(content).trim() || cue.original?.trim())) {
+      dropped++;
+      continue;
+    }
+    changed++;
+    result.push({
+      ...cue,
+      content: stripped,
+      ...(cue.text !== undefined && { text: stripMarkup(stripped) }),
+      ...(original !== undefined && { original }),
+    });
+  }
+
+  return {
+    cues: result.map((cue, i) => (cue.index === undefined ? cue : { ...cue, index: i + 1 })),
+    changed,
+    dropped,
+  };
+}
+
+/**
+ * The plain text of the cues that removing `elements` changes, before and
+ * after, so they can be shown before a download. `after` is empty for cues
+ * that are dropped.
+ */
+export function previewSDH(
+  cues: SDHCue[],
+  elements: SDHElement[]
+): { index?: number; before: string; after: string }[] {
+  if (elements.length === 0) return [];
+  const strip = elementsFor(cues, elements);
+  return cues.flatMap((cue) => {
+    const content = cue.content ?? cue.text ?? '';
+    if (cue.type === 'meta' || !stripMarkup(content).trim()) return [];
+    const stripped = stripSDH(content, strip);
+    if (stripped === sanitizeMarkup(content)) return [];
+    return [{ index: cue.index, before: stripMarkup(content).trim(), after: stripMarkup(stripped).trim() }];
+  });
+}
+
+/**
+ * Prompt rules for the SDH elements of a batch, empty when it has none.
+ * `language` names the language the output is written in, when known.
+ */
+export function sdhPrompt(texts: string[], language?: string): string {
+  const found = new Set(texts.flatMap(detectSDH));
+  if (found.size === 0) return '';
+
+  const conventions = language ? `the SDH conventions of ${language}` : 'the SDH conventions of the language';
+  const lines = [
+    `HEARING-IMPAIRED (SDH) ANNOTATIONS: these subtitles are for deaf and hard of hearing viewers. Keep every annotation, never drop or merge it into the dialogue, and write it following ${conventions}:`,
+  ];
+  if (found.has('sounds')) {
+    lines.push('- Sound cues in brackets or parentheses, e.g. [MUSIC] or (door slams): keep the brackets and describe the sound in words natural for that language');
+  }
+  if (found.has('speakers')) {
+    lines.push('- Speaker labels, e.g. JOHN: keep the label before the line it belongs to, names as they are and descriptions such as MAN translated');
+  }
+  if (found.has('music')) {
+    lines.push('- Lyrics between music notes (♪): keep the notes around the lyrics');
+  }
+  if (found.has('caps')) {
+    lines.push('- Annotations written in capitals: keep them in capitals');
+  }
+  return lines.join('\n');
+}
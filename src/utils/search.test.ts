@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'bun:test';
+import type { SearchQuery } from './search';
+import { createSearchPattern, findInMarkup, replaceInCues } from './search';
+
+const query = (text: string, options: Partial<SearchQuery> = {}): SearchQuery => ({
+  text,
+  regex: false,
+  caseSensitive: false,
+  wholeWord: false,
+  ...options,
+});
+
+const replace = (content: string, search: SearchQuery, replacement: string) =>
+  replaceInCues([{ index: 1, content }], search, replacement)[0]?.content;
+
+describe('replaceInCues', () => {
+  test('leaves override blocks alone when matching case-insensitively', () => {
+    expect(replace('{\\an8}<i>Ian and Fiona</i>', query('an'), 'AN')).toBe('{\\an8}<i>IAN ANd Fiona</i>');
+  });
+
+  test('never matches a tag name as a whole word', () => {
+    expect(replace('<i>I said hi</i>', query('i', { wholeWord: true }), 'me')).toBe('<i>me said hi</i>');
+  });
+
+  test('keeps the tags a match spans', () => {
+    expect(replace('I<b>an</b> left', query('Ian'), 'Jo')).toBe('Jo<b></b> left');
+  });
+
+  test('expands groups of regular expressions', () => {
+    expect(replace('<i>John Smith</i>', query('(\\w+) (\\w+)', { regex: true }), '$2, $1')).toBe(
+      '<i>Smith, John</i>'
+    );
+  });
+
+  test('inserts plain replacements as typed', () => {
+    expect(replace('Price', query('Price'), '$1')).toBe('$1');
+  });
+});
+
+describe('findInMarkup', () => {
+  test('returns positions in the markup', () => {
+    const matches = findInMarkup('<i>hi</i> hi', createSearchPattern(query('hi')));
+    expect(matches.map(({ start, end }) => [start, end])).toEqual([
+      [3, 5],
+      [10, 12],
+    ]);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Find and replace over cue text. Cues hold canonical markup (see
+ * utils/markup). Only the text is searched, tags and override blocks such
+ * as <i> or {\an8} are skipped and kept as they are.
+ */
+
+export interface SearchQuery {
+  text: string;
+  // Treat `text` as a regular expression, `$1` then works in replacements
+  regex: boolean;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+}
+
+export interface SearchCue {
+  index: number;
+  content: string;
+}
+
+export interface CueReplacement {
+  index: number;
+  content: string;
+  // Matches replaced in this cue
+  count: number;
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The global pattern of a query. Throws a SyntaxError for an invalid
+ * regular expression.
+ */
+export function createSearchPattern(query: SearchQuery): RegExp {
+  let source = query.regex ? query.text : escapeRegExp(query.text);
+  if (query.wholeWord) {
+    // \b only knows ASCII letters, this works for every script
+    source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+  }
+  return new RegExp(source, query.caseSensitive ? 'gu' : 'giu');
+}
+
+// Tags and override blocks of canonical markup
+const MARKUP_TAG = /<[^<>]*>|\{[^{}]*\}/g;
+
+export interface MarkupMatch {
+  // Position in the markup, tags inside the match included
+  start: number;
+  end: number;
+  match: RegExpExecArray;
+}
+
+/**
+ * Matches of a global pattern in the text of canonical markup. The pattern
+ * runs over the text with the tags left out, so a match can span a tag but
+ * never includes one.
+ */
+export function findInMarkup(content: string, pattern: RegExp): MarkupMatch[] {
+  let text = '';
+  // Position in the markup of each character of the text, and of its end
+  const positions: number[] = [];
+  let last = 0;
+  const keepText = (to: number) => {
+    for (let i = last; i < to; i++) positions.push(i);
+    text += content.slice(last, to);
+  };
+  for (const tag of content.matchAll(MARKUP_TAG)) {
+    keepText(tag.index);
+    last = tag.index + tag[0].length;
+  }
+  keepText(content.length);
+  positions.push(content.length);
+
+  return Array.from(text.matchAll(pattern), (match) => ({
+    start: positions[match.index],
+    end: match[0] ? positions[match.index + match[0].length - 1] + 1 : positions[match.index],
+    match,
+  }));
+}
+
+export const countMatches = (content: string, pattern: RegExp): number =>
+  findInMarkup(content, pattern).length;
+
+// What a regular expression replacement turns a match into, "$1" expanded
+function expandReplacement(pattern: RegExp, match: RegExpExecArray, replacement: string): string {
+  const sticky = new RegExp(pattern.source, pattern.flags.replace('g', '') + 'y');
+  sticky.lastIndex = match.index;
+  const replaced = match.input.replace(sticky, replacement);
+  const after = match.input.length - match.index - match[0].length;
+  return replaced.slice(match.index, replaced.length - after);
+}
+
+/**
+ * Replace every match in the cues. Only cues that changed are returned.
+ */
+export function replaceInCues(
+  cues: SearchCue[],
+  query: SearchQuery,
+  replacement: string
+): CueReplacement[] {
+  const pattern = createSearchPattern(query);
+  const changes: CueReplacement[] = [];
+  for (const cue of cues) {
+    const matches = findInMarkup(cue.content, pattern);
+    if (matches.length === 0) continue;
+    let content = '';
+    let last = 0;
+    for (const { start, end, match } of matches) {
+      // Plain text replacements are inserted as typed, "$" included
+      const text = query.regex ? expandReplacement(pattern, match, replacement) : replacement;
+      // Tags the match spans stay, after the new text
+      const tags = cue.content.slice(start, end).match(MARKUP_TAG)?.join('') ?? '';
+      content += cue.content.slice(last, start) + text + tags;
+      last = end;
+    }
+    content += cue.content.slice(last);
+    if (content !== cue.content) {
+      changes.push({ index: cue.index, content, count: matches.length });
+    }
+  }
+  return changes;
+}
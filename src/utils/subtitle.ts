@@ -1,4 +1,20 @@
 import * as subsrt from 'subsrt-ts';
+import {
+  sanitizeMarkup,
+  serializeMarkup,
+  stripMarkup,
+  tokenizeASSMarkup,
+} from './markup';
+import type { ASSDocument, ASSEventFields } from './ass';
+import { parseASS } from './ass';
+import { formatTime } from './timecode';
+import { DEFAULT_FPS, frameToMs } from './timing';
+import type { DetectedEncoding } from './encoding';
+import type { SupportedFormat } from './formats';
+import { decodeText } from './encoding';
+import { CUE_CHUNK_SIZE } from './worker';
+
+export { formatTime } from './timecode';
 
 export interface SubtitleCaption {
   type: 'caption' | 'meta';
@@ -8,6 +24,16 @@ export interface SubtitleCaption {
   duration: number;
   content: string;
   text: string;
+  // Style, Name (actor), Layer, margins and Effect of ASS/SSA events
+  ass?: ASSEventFields;
+}
+
+export interface ParsedSubtitleFile {
+  captions: SubtitleCaption[];
+  // Header, styles and comments of ASS/SSA files, written back on download
+  document?: ASSDocument;
+  // Encoding the file was read with
+  encoding: DetectedEncoding;
 }
 
 export interface ValidationResult {
@@ -28,7 +54,8 @@ const VALID_EXTENSIONS = [
   '.json',
 ];
 
-export function validateSubtitleFile(file: File): ValidationResult {
+// Only the name and size are checked, so files read from disk can be too
+export function validateSubtitleFile(file: Pick<File, 'name' | 'size'>): ValidationResult {
   // Check file size
   if (file.size > MAX_FILE_SIZE) {
     return {
@@ -54,58 +81,160 @@ export function validateSubtitleFile(file: File): ValidationResult {
 export async function parseSubtitleFile(
   file: File
 ): Promise<SubtitleCaption[]> {
-  try {
-    const content = await file.text();
-    const parsedContent = subsrt.parse(content);
+  return (await parseSubtitleDocument(file)).captions;
+}
 
-    if (!Array.isArray(parsedContent) || parsedContent.length === 0) {
-      throw new Error('No valid subtitles found in file');
-    }
+export interface ParseOptions {
+  // Frame rate of MicroDVD files, which are timed in frames
+  fps?: number;
+  // Detected from the bytes by default
+  encoding?: string;
+  // Detected from the content by default
+  format?: SupportedFormat;
+}
 
-    // Filter out non-caption items and clean each caption
-    return parsedContent
-      .filter((caption: any) => caption.type === 'caption' || !caption.type)
-      .map((caption: any, idx: number) => ({
-        type: 'caption',
-        index: idx + 1, // Start indices from 1
-        start: caption.start || 0,
-        end: caption.end || 0,
-        duration: caption.duration || 0,
-        content: sanitizeContent(caption.content || caption.text || ''),
-        text: sanitizeContent(caption.text || ''),
-      }));
+/**
+ * Parse a file keeping what the format carries besides captions, so it can
+ * be written back on download.
+ */
+export async function parseSubtitleDocument(
+  file: File,
+  options: ParseOptions = {}
+): Promise<ParsedSubtitleFile> {
+  // Not file.text(), older subtitles are often in a legacy encoding
+  return parseSubtitleBytes(new Uint8Array(await file.arrayBuffer()), options);
+}
+
+/**
+ * parseSubtitleDocument for the bytes of a file, wherever they were read
+ * from, e.g. the command line tool.
+ */
+export function parseSubtitleBytes(
+  bytes: Uint8Array,
+  options: ParseOptions = {}
+): ParsedSubtitleFile {
+  try {
+    const { entries, toCaption, ...file } = readEntries(bytes, options);
+    return { ...file, captions: entries.map(toCaption) };
   } catch (error) {
-    throw new Error(`Failed to parse subtitle file: ${error.message}`);
+    throw parseError(error);
   }
 }
 
-function sanitizeContent(content: string): string {
-  // remove HTML tags and trim whitespace
-  content = content.replace(/<\/?[^>]+(>|$)/g, '');
-
-  // Basic XSS prevention
-  return (
-    content
-      .replace(/</g, '')
-      .replace(/>/g, '')
-      // .replace(/&/g, ' and ')
-      // .replace(/"/g, '&quot;')
-      // .replace(/'/g, '&#039;')
-      .trim()
-  );
+/**
+ * parseSubtitleDocument a chunk of captions at a time. `afterChunk` is
+ * awaited after each one with the captions done so far, e.g. to report
+ * progress and let a cancel through.
+ */
+export async function parseSubtitleDocumentInChunks(
+  file: File,
+  options: ParseOptions,
+  afterChunk: (done: number, total: number) => Promise<void>
+): Promise<ParsedSubtitleFile> {
+  let parsed: ReturnType<typeof readEntries>;
+  try {
+    parsed = readEntries(new Uint8Array(await file.arrayBuffer()), options);
+  } catch (error) {
+    throw parseError(error);
+  }
+
+  const { entries, toCaption, ...rest } = parsed;
+  const captions: SubtitleCaption[] = [];
+  for (let offset = 0; offset < entries.length; offset += CUE_CHUNK_SIZE) {
+    entries.slice(offset, offset + CUE_CHUNK_SIZE).forEach((entry, i) => {
+      captions.push(toCaption(entry, offset + i));
+    });
+    await afterChunk(Math.min(offset + CUE_CHUNK_SIZE, entries.length), entries.length);
+  }
+  return { ...rest, captions };
 }
 
-export function formatTime(ms: number): string {
-  const pad = (n: number): string => n.toString().padStart(2, '0');
+const parseError = (error: unknown): Error =>
+  new Error(
+    `Failed to parse subtitle file: ${
+      error instanceof Error ? error.message : 'Unknown error'
+    }`
+  );
+
+/**
+ * Decode a file and split it into entries, leaving out the conversion of
+ * each entry to a caption, which is where long files spend their time.
+ */
+function readEntries(
+  bytes: Uint8Array,
+  options: ParseOptions
+): Omit<ParsedSubtitleFile, 'captions'> & {
+  entries: any[];
+  toCaption: (entry: any, idx: number) => SubtitleCaption;
+} {
+  const { text: content, encoding } = decodeText(bytes, options.encoding);
+  const format = options.format ?? subsrt.detect(content);
+
+  // ASS/SSA documents are read by our own parser, see utils/ass
+  if (format === 'ass' || format === 'ssa') {
+    const { document, events } = parseASS(content);
+    if (events.length === 0) {
+      throw new Error('No valid subtitles found in file');
+    }
+    return {
+      document,
+      encoding,
+      entries: events,
+      toCaption: (event: (typeof events)[number], idx): SubtitleCaption => {
+        // Override blocks are converted to the same markup as SRT tags
+        const markup = serializeMarkup(
+          tokenizeASSMarkup(event.text),
+          'canonical'
+        );
+        return {
+          type: 'caption',
+          index: idx + 1,
+          start: event.start,
+          end: event.end,
+          duration: event.end - event.start,
+          content: markup,
+          text: stripMarkup(markup),
+          ass: event.fields,
+        };
+      },
+    };
+  }
+
+  const parsedContent = subsrt.parse(content, { eol: '\n', format: options.format });
+
+  if (!Array.isArray(parsedContent) || parsedContent.length === 0) {
+    throw new Error('No valid subtitles found in file');
+  }
 
-  const hours = Math.floor(ms / 3600000);
-  const minutes = Math.floor((ms % 3600000) / 60000);
-  const seconds = Math.floor((ms % 60000) / 1000);
-  const milliseconds = Math.floor(ms % 1000);
+  // Filter out non-caption items and clean each caption
+  return {
+    encoding,
+    entries: parsedContent.filter((caption: any) => caption.type === 'caption' || !caption.type),
+    toCaption: (caption: any, idx): SubtitleCaption => {
+      const markup = sanitizeContent(caption.content || caption.text || '');
+      // MicroDVD counts frames, subsrt divides them into seconds instead of ms
+      const fps = options.fps ?? DEFAULT_FPS;
+      const start = caption.frame ? frameToMs(caption.frame.start, fps) : caption.start || 0;
+      const end = caption.frame ? frameToMs(caption.frame.end, fps) : caption.end || 0;
+      return {
+        type: 'caption',
+        index: idx + 1, // Start indices from 1
+        start,
+        end,
+        duration: end - start,
+        content: markup,
+        text: stripMarkup(markup),
+      };
+    },
+  };
+}
 
-  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)},${milliseconds
-    .toString()
-    .padStart(3, '0')}`;
+/**
+ * Keep the whitelisted inline formatting (see utils/markup) and drop every
+ * other tag, which also removes anything that could be injected as HTML.
+ */
+export function sanitizeContent(content: string): string {
+  return sanitizeMarkup(content);
 }
 
 export function createSRTContent(captions: SubtitleCaption[]): string {
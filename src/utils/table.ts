@@ -0,0 +1,205 @@
+import type { CueSplice, TableCue } from './cues';
+import { toDisplayHTML } from './markup';
+import type { QCIssue } from './qc';
+import type { SubtitleCaption } from './subtitle';
+import { formatTime } from './timecode';
+import {
+  getListedRows,
+  getRenderedRow,
+  initVirtualRows,
+  refreshVirtualRows,
+  revealRow,
+  setVirtualRows,
+} from './virtual-rows';
+
+/**
+ * The lines of the subtitle table. Files can have thousands of them, so
+ * the table only has rows for the lines around the viewport, made from the
+ * lines kept here (see utils/virtual-rows). Tools read and change the
+ * lines, then call refreshLines so the rows showing them follow.
+ */
+
+// A line of the table and what the tools noted about it
+export interface TableLine extends TableCue {
+  // Ticked in the table
+  selected?: boolean;
+  // Typed in by hand, for the filter
+  edited?: boolean;
+  // An AI suggestion was accepted
+  aiChanged?: boolean;
+  // The model returned no translation for it
+  missing?: boolean;
+  // Filled in from the translation memory
+  memory?: { text: string; score: number; source?: string };
+  // Glossary terms the translation misses
+  glossary?: string;
+  // Found by the last quality check
+  issues?: QCIssue[];
+}
+
+// Sent on the document each time a row is filled for a line
+export type RowRenderEvent = CustomEvent<{ row: HTMLTableRowElement; index: number; line: TableLine }>;
+
+// Browser-side helpers for the subtitle table
+
+let lines: TableLine[] | null = null;
+
+// The uploaded cues until a saved project or an edit changes them
+function readCaptions(): TableLine[] {
+  const data = document.getElementById('subtitle-data')?.dataset.subtitles;
+  const captions: SubtitleCaption[] = data ? JSON.parse(data) : [];
+  return captions.map((caption) => ({
+    start: caption.start,
+    end: caption.end,
+    content: caption.content,
+    translation: '',
+    ass: caption.ass,
+  }));
+}
+
+// Every line in order, line n is at n - 1
+export function getLines(): TableLine[] {
+  lines ??= readCaptions();
+  return lines;
+}
+
+export const getLine = (index: number): TableLine | undefined => getLines()[index - 1];
+
+// Numbers of the lines the filter lets through, in order
+export const getShownLines = (): number[] => getListedRows();
+
+// Update the rows of lines that changed, every row by default
+export const refreshLines = (indices?: Iterable<number>): void => refreshVirtualRows(indices);
+
+/**
+ * List lines in the table, every line by default. The others are hidden
+ * until a filter lists them again.
+ */
+export function showLines(indices?: number[]): void {
+  setVirtualRows(indices ?? getLines().map((_, i) => i + 1));
+}
+
+/**
+ * Apply splices to the lines, in order, then list every line again. Lines
+ * after a splice are renumbered.
+ */
+export function spliceLines(splices: CueSplice[]): void {
+  for (const { position, removed, added } of splices) {
+    getLines().splice(position, removed.length, ...added.map((cue) => ({ ...cue })));
+  }
+  showLines();
+}
+
+// A cell of a row, by the name in its id, e.g. "trans" for sub-trans-12
+export const rowField = <T extends HTMLElement>(row: HTMLElement, name: string): T | null =>
+  row.querySelector<T>(`[id^="sub-${name}-"]`);
+
+// The row of a line, when it is rendered
+export const getRow = (index: number): HTMLTableRowElement | undefined => getRenderedRow(index);
+
+// The translation field of a line, when its row is rendered
+export const getTextArea = (index: number): HTMLTextAreaElement | null => {
+  const row = getRow(index);
+  return row ? rowField<HTMLTextAreaElement>(row, 'trans') : null;
+};
+
+/**
+ * Scroll to a line and return its row. Lines hidden by a filter are listed
+ * again, they would otherwise be unreachable.
+ */
+export function revealLine(index: number, behavior?: ScrollBehavior): HTMLTableRowElement | undefined {
+  const listed = getShownLines();
+  if (getLine(index) && !listed.includes(index)) {
+    showLines([...listed, index].sort((a, b) => a - b));
+  }
+  return revealRow(index, behavior);
+}
+
+function fillRow(row: HTMLTableRowElement, index: number): void {
+  const line = getLine(index);
+  if (!line) return;
+
+  row.removeAttribute('class');
+  row.querySelectorAll<HTMLElement>('[id^="sub-"]').forEach((element) => {
+    element.id = element.id.replace(/-\d+$/, `-${index}`);
+  });
+  const checkbox = row.querySelector<HTMLInputElement>('.cue-select');
+  if (checkbox) {
+    checkbox.checked = Boolean(line.selected);
+    checkbox.setAttribute('aria-label', `Select line ${index}`);
+  }
+  const fields: [string, string][] = [
+    ['id', index.toString()],
+    ['start', formatTime(line.start)],
+    ['end', formatTime(line.end)],
+  ];
+  for (const [name, value] of fields) {
+    const input = rowField<HTMLInputElement>(row, name);
+    if (input) input.value = value;
+  }
+
+  const styleCell = row.querySelector<HTMLElement>('td[data-label="Style / Actor"]');
+  if (styleCell) {
+    const badge = document.createElement('span');
+    badge.className = 'badge text-bg-secondary text-wrap';
+    badge.textContent = line.ass?.Style || 'Default';
+    styleCell.replaceChildren(badge);
+    if (line.ass?.Name) {
+      const actor = document.createElement('div');
+      actor.className = 'text-muted mt-1';
+      actor.textContent = line.ass.Name;
+      styleCell.append(actor);
+    }
+  }
+  const original = row.querySelector<HTMLElement>('td[data-label="Original"] p');
+  if (original) original.innerHTML = toDisplayHTML(line.content);
+
+  const textArea = rowField<HTMLTextAreaElement>(row, 'trans');
+  if (textArea) {
+    // Setting the same text would move the cursor of the line being typed in
+    if (textArea.value !== line.translation) textArea.value = line.translation;
+    textArea.className = 'form-control form-control-sm editable-cell';
+    textArea.classList.toggle('is-invalid', Boolean(line.missing));
+    textArea.setAttribute('aria-label', `Editable translated text for line ${index}`);
+  }
+  for (const name of ['memory', 'glossary', 'qc', 'review']) {
+    const box = rowField(row, name);
+    box?.classList.add('d-none');
+    box?.replaceChildren();
+  }
+
+  // The tools fill in their notes, e.g. QC badges or AI suggestions
+  document.dispatchEvent(new CustomEvent('row:render', { detail: { row, index, line } }));
+}
+
+/**
+ * Render the lines in the table body, with rows cloned from the template
+ * next to it. Typing and ticking the checkboxes go to the lines.
+ */
+export function initSubtitleTable(tbody: HTMLElement, template: HTMLTemplateElement): void {
+  const blank = template.content.querySelector('tr');
+  if (!blank) return;
+
+  initVirtualRows(tbody, blank.cells.length, {
+    createRow: () => blank.cloneNode(true) as HTMLTableRowElement,
+    renderRow: fillRow,
+  });
+
+  // On the body, so the lines are up to date before other listeners run
+  tbody.addEventListener('input', (event) => {
+    const target = event.target;
+    const line = getLine(Number((target as HTMLElement).closest('tr')?.dataset.index));
+    if (line && target instanceof HTMLTextAreaElement && target.matches('.editable-cell')) {
+      line.translation = target.value;
+    }
+  });
+  tbody.addEventListener('change', (event) => {
+    const target = event.target;
+    const line = getLine(Number((target as HTMLElement).closest('tr')?.dataset.index));
+    if (line && target instanceof HTMLInputElement && target.matches('.cue-select')) {
+      line.selected = target.checked;
+    }
+  });
+
+  showLines();
+}
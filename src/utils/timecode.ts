@@ -0,0 +1,23 @@
+// SRT-style timecodes (HH:MM:SS,mmm) as shown in the subtitle table
+
+export function formatTime(ms: number): string {
+  const pad = (n: number): string => n.toString().padStart(2, '0');
+
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  const milliseconds = Math.floor(ms % 1000);
+
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)},${milliseconds
+    .toString()
+    .padStart(3, '0')}`;
+}
+
+export function parseTime(timeString: string): number {
+  const parts = timeString.split(/[:,]/).map(Number);
+  if (parts.length === 4) {
+    const [hours, minutes, seconds, milliseconds] = parts;
+    return (hours * 3600 + minutes * 60 + seconds) * 1000 + milliseconds;
+  }
+  return 0;
+}
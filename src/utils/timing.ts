@@ -0,0 +1,138 @@
+import { parseTime } from './timecode';
+import { notifySubtitlesChanged } from './project';
+import { getLine, getLines, refreshLines } from './table';
+
+/**
+ * Timing operations on captions. Every function returns new cues and
+ * never moves a cue before 0.
+ */
+
+export interface TimedCue {
+  index: number;
+  start: number;
+  end: number;
+}
+
+// A cue index and the time its start should have
+export interface SyncAnchor {
+  index: number;
+  time: number;
+}
+
+export const COMMON_FRAME_RATES = [23.976, 24, 25, 29.97, 30, 50, 59.94, 60];
+
+export const DEFAULT_FPS = 25;
+
+export function isValidFrameRate(fps: unknown): fps is number {
+  return typeof fps === 'number' && Number.isFinite(fps) && fps > 0 && fps <= 240;
+}
+
+const clamp = (ms: number): number => Math.max(0, Math.round(ms));
+
+// Apply a time mapping to the selected cues (all when no selection)
+function mapTimes<T extends TimedCue>(
+  cues: T[],
+  map: (ms: number) => number,
+  indices?: Set<number>
+): T[] {
+  return cues.map((cue) =>
+    !indices || indices.has(cue.index)
+      ? { ...cue, start: clamp(map(cue.start)), end: clamp(map(cue.end)) }
+      : cue
+  );
+}
+
+/**
+ * Move cues by an offset in milliseconds, negative values move them earlier.
+ */
+export function shiftCues<T extends TimedCue>(
+  cues: T[],
+  offset: number,
+  indices?: Set<number>
+): T[] {
+  return mapTimes(cues, (ms) => ms + offset, indices);
+}
+
+/**
+ * Linear resync from two anchors: each anchor cue starts at its new time and
+ * everything else is stretched and moved in proportion.
+ */
+export function resyncCues<T extends TimedCue>(
+  cues: T[],
+  first: SyncAnchor,
+  second: SyncAnchor
+): T[] {
+  const from = cues.find((cue) => cue.index === first.index);
+  const to = cues.find((cue) => cue.index === second.index);
+  if (!from || !to) {
+    throw new Error('Anchor line not found');
+  }
+  if (from.start === to.start) {
+    throw new Error('Anchor lines must start at different times');
+  }
+
+  const scale = (second.time - first.time) / (to.start - from.start);
+  if (scale <= 0) {
+    throw new Error('The second anchor must come after the first');
+  }
+  return mapTimes(cues, (ms) => first.time + (ms - from.start) * scale);
+}
+
+/**
+ * Retime cues made for a video at one frame rate to the same video at
+ * another, e.g. a 25 fps PAL release to 23.976 fps.
+ */
+export function convertFrameRate<T extends TimedCue>(
+  cues: T[],
+  fromFps: number,
+  toFps: number
+): T[] {
+  if (!isValidFrameRate(fromFps) || !isValidFrameRate(toFps)) {
+    throw new Error('Invalid frame rate');
+  }
+  return mapTimes(cues, (ms) => (ms * fromFps) / toFps);
+}
+
+export const msToFrame = (ms: number, fps: number): number =>
+  Math.round((ms * fps) / 1000);
+
+export const frameToMs = (frame: number, fps: number): number =>
+  Math.round((frame * 1000) / fps);
+
+/**
+ * Read an offset typed by the user: seconds ("-1.5") or a timecode
+ * ("-00:00:01,500"). Returns milliseconds, or null when it can't be read.
+ */
+export function parseOffset(value: string): number | null {
+  const trimmed = value.trim();
+  const sign = trimmed.startsWith('-') ? -1 : 1;
+  const unsigned = trimmed.replace(/^[-+]/, '');
+
+  const timecode = unsigned.match(/^(\d+:\d{1,2}:\d{1,2})[,.](\d{1,3})$/);
+  if (timecode) {
+    return sign * parseTime(`${timecode[1]},${timecode[2].padEnd(3, '0')}`);
+  }
+  if (/^\d+(\.\d+)?$/.test(unsigned)) {
+    return sign * Math.round(Number(unsigned) * 1000);
+  }
+  return null;
+}
+
+// Browser-side helpers for the subtitle table
+
+// Write cue times back to the lines of the table
+export function updateTableTimes(cues: TimedCue[]): void {
+  for (const cue of cues) {
+    const line = getLine(cue.index);
+    if (!line) continue;
+    line.start = cue.start;
+    line.end = cue.end;
+  }
+  refreshLines(cues.map((cue) => cue.index));
+  notifySubtitlesChanged();
+}
+
+// Indices of the lines ticked in the table
+export function getSelectedIndices(): Set<number> {
+  return new Set(getLines().flatMap((line, i) => (line.selected ? [i + 1] : [])));
+}
@@ -0,0 +1,61 @@
+import { isInputEncoding } from './encoding';
+import { isSupportedFormat } from './formats';
+import { AUTO_DETECT, isSupportedLanguage } from './languages';
+import { MAX_SUBTITLES_PER_REQUEST } from './llm/tasks';
+import { isValidFrameRate } from './timing';
+
+/**
+ * Request checks shared by the API routes of the editor and /api/v1. Each
+ * returns an error message, or undefined when the values are valid, like
+ * validateExportOptions does for downloads.
+ */
+
+export function validateSubtitleItems(
+  subtitles: unknown,
+  max = MAX_SUBTITLES_PER_REQUEST
+): string | undefined {
+  if (!Array.isArray(subtitles) || subtitles.length === 0) {
+    return 'Subtitles array is required and must not be empty';
+  }
+  if (subtitles.length > max) {
+    return `Too many subtitles in single request. Maximum ${max} subtitles per request.`;
+  }
+  return undefined;
+}
+
+export function validateLanguages(
+  sourceLanguage: unknown,
+  targetLanguage: unknown
+): string | undefined {
+  if (typeof targetLanguage !== 'string' || !isSupportedLanguage(targetLanguage)) {
+    return 'A supported target language is required';
+  }
+  if (
+    sourceLanguage !== AUTO_DETECT &&
+    (typeof sourceLanguage !== 'string' || !isSupportedLanguage(sourceLanguage))
+  ) {
+    return 'Unsupported source language';
+  }
+  return undefined;
+}
+
+/**
+ * Check the options a file is read with: the frame rate of MicroDVD files,
+ * the encoding and the format when they are not detected.
+ */
+export function validateParseOptions(options: {
+  fps?: unknown;
+  encoding?: unknown;
+  format?: unknown;
+}): string | undefined {
+  if (options.fps !== undefined && !isValidFrameRate(options.fps)) {
+    return 'Invalid frame rate';
+  }
+  if (options.encoding !== undefined && !isInputEncoding(options.encoding)) {
+    return 'Unsupported encoding';
+  }
+  if (options.format !== undefined && !isSupportedFormat(options.format)) {
+    return 'Unsupported subtitle format';
+  }
+  return undefined;
+}
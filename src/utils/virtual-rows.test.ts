@@ -0,0 +1,70 @@
+import { GlobalRegistrator } from '@happy-dom/global-registrator';
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import {
+  ESTIMATED_ROW_HEIGHT,
+  MAX_RENDERED_ROWS,
+  getRowWindow,
+  initVirtualRows,
+  refreshVirtualRows,
+  setVirtualRows,
+} from './virtual-rows';
+
+describe('getRowWindow', () => {
+  test('covers the viewport and the overscan', () => {
+    expect(getRowWindow(0, 1000, 100, 5000)).toEqual({ first: 0, last: 30 });
+    expect(getRowWindow(100_000, 1000, 100, 5000)).toEqual({ first: 990, last: 1020 });
+  });
+
+  test('stops at the end of the list', () => {
+    expect(getRowWindow(600_000, 1000, 100, 5000)).toEqual({ first: 4990, last: 5000 });
+    expect(getRowWindow(0, 1000, 100, 12)).toEqual({ first: 0, last: 12 });
+  });
+
+  test('never renders more than the maximum', () => {
+    const { first, last } = getRowWindow(0, 10_000, 1, 5000);
+    expect(last - first).toBe(MAX_RENDERED_ROWS);
+  });
+});
+
+describe('virtual rows', () => {
+  beforeAll(() => GlobalRegistrator.register());
+  afterAll(() => GlobalRegistrator.unregister());
+
+  test('keeps the number of rows in the table bounded while scrolling', async () => {
+    const tbody = document.createElement('tbody');
+    document.body.append(document.createElement('table'));
+    document.querySelector('table')!.append(tbody);
+    // The table starts at the top of the page
+    tbody.getBoundingClientRect = () => ({ top: -window.scrollY }) as DOMRect;
+
+    let created = 0;
+    initVirtualRows(tbody, 2, {
+      createRow: () => {
+        created++;
+        return document.createElement('tr');
+      },
+      renderRow: (row, index) => {
+        row.textContent = `Line ${index}`;
+      },
+    });
+    setVirtualRows(Array.from({ length: 5000 }, (_, i) => i + 1));
+
+    const rows = () => Array.from(tbody.querySelectorAll<HTMLTableRowElement>('tr[data-index]'));
+    expect(rows().length).toBeGreaterThan(0);
+    expect(rows().length).toBeLessThanOrEqual(MAX_RENDERED_ROWS);
+    expect(rows()[0].textContent).toBe('Line 1');
+
+    for (const line of [2500, 4990, 10]) {
+      window.scrollTo(0, line * ESTIMATED_ROW_HEIGHT);
+      window.dispatchEvent(new Event('scroll'));
+      await new Promise((resolve) => requestAnimationFrame(resolve));
+      expect(rows().length).toBeLessThanOrEqual(MAX_RENDERED_ROWS);
+      expect(rows().some((row) => row.dataset.index === line.toString())).toBe(true);
+    }
+    // Rows scrolled out of the window were reused
+    expect(created).toBeLessThanOrEqual(MAX_RENDERED_ROWS);
+
+    refreshVirtualRows();
+    expect(rows().every((row) => row.textContent === `Line ${row.dataset.index}`)).toBe(true);
+  });
+});
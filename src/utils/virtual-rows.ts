@@ -0,0 +1,181 @@
+/**
+ * Windowed rendering of the subtitle table. Only the lines around the
+ * viewport have a row, rows scrolled out of the window are reused for the
+ * lines scrolled in, and spacer rows stand in for the height of the others
+ * so the scrollbar stays right. What a row shows comes from the caller,
+ * see utils/table.
+ */
+
+// Lines rendered above and below the viewport
+export const OVERSCAN = 10;
+// Height until rows are measured, a row with a three line textarea
+export const ESTIMATED_ROW_HEIGHT = 110;
+// Rows in the table at most, however small the rows or tall the window
+export const MAX_RENDERED_ROWS = 100;
+
+/**
+ * Positions of the listed lines to render, `last` excluded, for a table
+ * scrolled `offset` pixels past its top.
+ */
+export function getRowWindow(
+  offset: number,
+  viewportHeight: number,
+  rowHeight: number,
+  count: number
+): { first: number; last: number } {
+  const visible = Math.ceil(viewportHeight / rowHeight) + OVERSCAN * 2;
+  const first = Math.max(0, Math.min(count, Math.floor(offset / rowHeight)) - OVERSCAN);
+  return { first, last: Math.min(count, first + Math.min(visible, MAX_RENDERED_ROWS)) };
+}
+
+// Browser-side helpers for the subtitle table
+
+export interface VirtualRowsOptions {
+  // An empty row, made once for every row the window needs
+  createRow: () => HTMLTableRowElement;
+  // Fill a row for a line, data-index is already set
+  renderRow: (row: HTMLTableRowElement, index: number) => void;
+}
+
+let body: HTMLElement | null = null;
+let options: VirtualRowsOptions;
+let topSpacer: HTMLTableRowElement;
+let bottomSpacer: HTMLTableRowElement;
+// Lines listed in the table, in order, the filter leaves the others out
+let listed: number[] = [];
+// Rows in the table by line index, and rows waiting to be reused
+const rendered = new Map<number, HTMLTableRowElement>();
+const spare: HTMLTableRowElement[] = [];
+let rowHeight = ESTIMATED_ROW_HEIGHT;
+let measured = false;
+let frame = 0;
+
+function createSpacer(columns: number): HTMLTableRowElement {
+  const row = document.createElement('tr');
+  row.className = 'virtual-spacer';
+  row.setAttribute('aria-hidden', 'true');
+  const cell = document.createElement('td');
+  cell.colSpan = columns;
+  cell.className = 'p-0 border-0';
+  row.append(cell);
+  return row;
+}
+
+// Put the window of rows in the table, `stale` rows are filled again
+function render(stale: Iterable<number> = []): void {
+  cancelAnimationFrame(frame);
+  frame = 0;
+  if (!body) return;
+
+  const top = body.getBoundingClientRect().top + window.scrollY;
+  const { first, last } = getRowWindow(window.scrollY - top, window.innerHeight, rowHeight, listed.length);
+  const indices = listed.slice(first, last);
+  const wanted = new Set(indices);
+
+  for (const [index, row] of rendered) {
+    if (wanted.has(index)) continue;
+    // Typing goes to the line the row shows, so it can't follow the row
+    if (row.contains(document.activeElement)) (document.activeElement as HTMLElement).blur();
+    row.remove();
+    rendered.delete(index);
+    spare.push(row);
+  }
+
+  const refill = new Set(stale);
+  let previous: HTMLTableRowElement = topSpacer;
+  for (const index of indices) {
+    let row = rendered.get(index);
+    if (!row) {
+      row = spare.pop() ?? options.createRow();
+      rendered.set(index, row);
+      refill.add(index);
+    }
+    if (refill.has(index)) {
+      row.dataset.index = index.toString();
+      options.renderRow(row, index);
+    }
+    // Rows already in place aren't moved, that would take the focus away
+    if (previous.nextElementSibling !== row) previous.after(row);
+    previous = row;
+  }
+
+  // Rows are measured once, later changes in height would make the page jump
+  if (!measured && rendered.size > 0) {
+    const heights = Array.from(rendered.values(), (row) => row.offsetHeight).filter((height) => height > 0);
+    if (heights.length > 0) {
+      rowHeight = heights.reduce((sum, height) => sum + height, 0) / heights.length;
+      measured = true;
+    }
+  }
+
+  topSpacer.style.height = `${first * rowHeight}px`;
+  bottomSpacer.style.height = `${Math.max(0, listed.length - last) * rowHeight}px`;
+}
+
+const scheduleRender = () => {
+  if (!frame) frame = requestAnimationFrame(() => render());
+};
+
+/**
+ * Start rendering the table body, empty until the lines are listed with
+ * setVirtualRows. `columns` is the number of cells in a row.
+ */
+export function initVirtualRows(tbody: HTMLElement, columns: number, rowOptions: VirtualRowsOptions): void {
+  if (body) return;
+  body = tbody;
+  options = rowOptions;
+  topSpacer = createSpacer(columns);
+  bottomSpacer = createSpacer(columns);
+  tbody.replaceChildren(topSpacer, bottomSpacer);
+
+  window.addEventListener('scroll', scheduleRender, { passive: true });
+  window.addEventListener('resize', () => {
+    measured = false;
+    scheduleRender();
+  });
+}
+
+/**
+ * List lines in the table, in order, after a filter changed or lines were
+ * added or removed. Every row is filled again.
+ */
+export function setVirtualRows(indices: number[]): void {
+  listed = indices;
+  render([...rendered.keys()]);
+}
+
+// Fill the rows of lines again after they changed, all rows by default
+export function refreshVirtualRows(indices: Iterable<number> = rendered.keys()): void {
+  if (!body) return;
+  for (const index of indices) {
+    const row = rendered.get(index);
+    if (row) options.renderRow(row, index);
+  }
+}
+
+// Lines listed in the table, in order
+export const getListedRows = (): number[] => listed;
+
+// The row of a line, when it is in the window
+export const getRenderedRow = (index: number): HTMLTableRowElement | undefined =>
+  rendered.get(index);
+
+/**
+ * Scroll a listed line into view and return its row. Lines the filter
+ * leaves out have no row.
+ */
+export function revealRow(index: number, behavior: ScrollBehavior = 'smooth'): HTMLTableRowElement | undefined {
+  const position = listed.indexOf(index);
+  if (!body || position === -1) return undefined;
+
+  // Near the line first, its row only exists once the window is there
+  if (!rendered.has(index)) {
+    const top = body.getBoundingClientRect().top + window.scrollY;
+    window.scrollTo({ top: top + position * rowHeight - window.innerHeight / 2 });
+    render();
+    behavior = 'auto';
+  }
+  const row = rendered.get(index);
+  row?.scrollIntoView({ behavior, block: 'center' });
+  return row;
+}
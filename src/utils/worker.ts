@@ -0,0 +1,131 @@
+import type { ExportOptions, ExportedFile } from './export';
+import type { SubtitleInput, SupportedFormat } from './formats';
+import type { QCConfig, QCCue, QCIssue } from './qc';
+import type { CueReplacement, SearchCue, SearchQuery } from './search';
+import type { ParsedSubtitleFile } from './subtitle';
+
+/**
+ * Messages between the page and scripts/subtitle-worker.ts, which parses,
+ * builds, searches and lints large files off the main thread.
+ */
+
+export type WorkerTask =
+  | { type: 'parse'; file: File; fps?: number; encoding?: string }
+  | {
+      type: 'build';
+      subtitles: SubtitleInput[];
+      format: SupportedFormat;
+      options: ExportOptions;
+    }
+  | { type: 'replace'; cues: SearchCue[]; query: SearchQuery; replacement: string }
+  | { type: 'qc'; cues: QCCue[]; config: QCConfig };
+
+export type WorkerTaskType = WorkerTask['type'];
+
+export interface WorkerResults {
+  parse: ParsedSubtitleFile;
+  build: ExportedFile;
+  replace: CueReplacement[];
+  qc: QCIssue[];
+}
+
+// Every message carries the id of its task, several can run at once
+export type WorkerRequest =
+  | { id: number; type: 'run'; task: WorkerTask }
+  | { id: number; type: 'cancel' };
+
+export type WorkerResponse =
+  | { id: number; type: 'progress'; progress: number }
+  | { id: number; type: 'result'; result: WorkerResults[WorkerTaskType] }
+  | { id: number; type: 'error'; error: string }
+  | { id: number; type: 'cancelled' };
+
+// Cues handled between two progress reports and cancel checks of a task,
+// also the chunk of a streamed download
+export const CUE_CHUNK_SIZE = 500;
+
+// Browser-side helpers
+
+// Tables with more cues than this are processed by the worker
+export const WORKER_CUE_THRESHOLD = 1000;
+
+interface PendingTask {
+  resolve: (result: any) => void;
+  reject: (error: unknown) => void;
+  onProgress?: (progress: number) => void;
+}
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, PendingTask>();
+
+const abortError = () => new DOMException('The task was cancelled', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+export const supportsWorkers = (): boolean => typeof Worker !== 'undefined';
+
+// One worker for the page, started on first use
+function getWorker(): Worker {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('../scripts/subtitle-worker.ts', import.meta.url), {
+    type: 'module',
+  });
+  worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => {
+    const message = event.data;
+    const task = pending.get(message.id);
+    if (!task) return;
+
+    if (message.type === 'progress') {
+      task.onProgress?.(message.progress);
+      return;
+    }
+    pending.delete(message.id);
+    if (message.type === 'result') task.resolve(message.result);
+    else if (message.type === 'error') task.reject(new Error(message.error));
+    else task.reject(abortError());
+  });
+  // A worker that failed to load fails every task, the next one starts over
+  worker.addEventListener('error', (event) => {
+    for (const task of pending.values()) {
+      task.reject(new Error(event.message || 'The subtitle worker failed to start'));
+    }
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  });
+  return worker;
+}
+
+/**
+ * Run a task in the subtitle worker. `onProgress` gets the share that is
+ * done, from 0 to 1. Aborting `signal` cancels the task and rejects with
+ * an AbortError.
+ */
+export function runWorkerTask<T extends WorkerTask>(
+  task: T,
+  options: { onProgress?: (progress: number) => void; signal?: AbortSignal } = {}
+): Promise<WorkerResults[T['type']]> {
+  const { onProgress, signal } = options;
+  if (signal?.aborted) {
+    return Promise.reject(abortError());
+  }
+
+  const id = nextId++;
+  const target = getWorker();
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject, onProgress });
+    signal?.addEventListener(
+      'abort',
+      () => {
+        if (!pending.delete(id)) return;
+        target.postMessage({ id, type: 'cancel' } satisfies WorkerRequest);
+        reject(abortError());
+      },
+      { once: true }
+    );
+    target.postMessage({ id, type: 'run', task } satisfies WorkerRequest);
+  });
+}
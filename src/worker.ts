@@ -0,0 +1,11 @@
+import type { SSRManifest } from 'astro';
+import { createExports as createAstroExports } from '@astrojs/cloudflare/entrypoints/server.js';
+import { RateLimitCounter } from './utils/rate-limit';
+
+/**
+ * Worker entry point: the Astro app, plus the Durable Object class of the
+ * RATE_LIMITER binding in wrangler.jsonc.
+ */
+export function createExports(manifest: SSRManifest) {
+  return { ...createAstroExports(manifest), RateLimitCounter };
+}